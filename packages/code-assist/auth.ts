@@ -0,0 +1,152 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { Request } from 'express';
+import { OAuth2Client } from 'google-auth-library';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Config } from './config.js';
+import { introspectToken } from './oauth.js';
+
+export type AuthConfig = Config['auth'];
+
+export interface CallerIdentity {
+    type: 'api_key' | 'google_id_token' | 'oauth';
+    // Stable identifier for the caller: the API key name, or the token's `sub` claim.
+    subject: string;
+    email?: string;
+}
+
+export type AuthResult =
+    | { ok: true; authInfo?: AuthInfo }
+    // `error` is the RFC 6750 error code, unset when no credential was sent.
+    | { ok: false; message: string; error?: 'invalid_token' };
+
+export function isAuthEnabled(auth: AuthConfig): boolean {
+    return auth.apiKeys.length > 0 || auth.google !== undefined || auth.oauth !== undefined;
+}
+
+export function getCallerIdentity(authInfo?: AuthInfo): CallerIdentity | undefined {
+    return authInfo?.extra?.identity as CallerIdentity | undefined;
+}
+
+// Subjects are only unique within a credential type: an API key may share its name with a token's `sub`.
+export function isSameCaller(a?: CallerIdentity, b?: CallerIdentity): boolean {
+    return a?.type === b?.type && a?.subject === b?.subject;
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+function extractCredential(req: Request): string | undefined {
+    const authorization = req.headers.authorization;
+    if (authorization) {
+        const match = authorization.match(/^Bearer\s+(.+)$/i);
+        return match ? match[1].trim() : undefined;
+    }
+    const apiKey = req.headers['x-api-key'];
+    return typeof apiKey === 'string' ? apiKey.trim() : undefined;
+}
+
+function matchApiKey(credential: string, auth: AuthConfig): CallerIdentity | undefined {
+    // Compare fixed-length digests so the check does not leak key length or content through timing.
+    const credentialDigest = digest(credential);
+    for (const entry of auth.apiKeys) {
+        const { key, name } = typeof entry === 'string' ? { key: entry, name: undefined } : entry;
+        if (timingSafeEqual(credentialDigest, digest(key))) {
+            return { type: 'api_key', subject: name ?? `key-${digest(key).toString('hex').slice(0, 8)}` };
+        }
+    }
+    return undefined;
+}
+
+const JWT_PATTERN = /^[\w-]+\.[\w-]+\.[\w-]+$/;
+
+let googleClient: OAuth2Client | null = null;
+
+async function verifyGoogleIdToken(token: string, google: NonNullable<AuthConfig['google']>): Promise<CallerIdentity> {
+    googleClient = googleClient ?? new OAuth2Client();
+    const ticket = await googleClient.verifyIdToken({ idToken: token, audience: google.audiences });
+    const payload = ticket.getPayload();
+    if (!payload?.sub) {
+        throw new Error('ID token has no subject');
+    }
+    if (google.allowedEmails && !(payload.email && payload.email_verified && google.allowedEmails.includes(payload.email))) {
+        throw new Error('email is not allowed');
+    }
+    if (google.hostedDomains && !(payload.hd && google.hostedDomains.includes(payload.hd))) {
+        throw new Error('hosted domain is not allowed');
+    }
+    return { type: 'google_id_token', subject: payload.sub, email: payload.email };
+}
+
+/**
+ * Authenticates an `/mcp` request against the configured static API keys
+ * (`Authorization: Bearer <key>` or `X-API-Key`), Google-signed ID tokens and
+ * OAuth access tokens. Always succeeds, without an identity, when
+ * authentication is disabled.
+ */
+export async function authenticateRequest(req: Request, auth: AuthConfig): Promise<AuthResult> {
+    if (!isAuthEnabled(auth)) {
+        return { ok: true };
+    }
+
+    const credential = extractCredential(req);
+    if (!credential) {
+        return { ok: false, message: 'Unauthorized: Missing bearer token or API key' };
+    }
+
+    const apiKeyIdentity = matchApiKey(credential, auth);
+    if (apiKeyIdentity) {
+        return { ok: true, authInfo: { token: credential, clientId: apiKeyIdentity.subject, scopes: [], extra: { identity: apiKeyIdentity } } };
+    }
+
+    const failures: string[] = [];
+    if (auth.google && JWT_PATTERN.test(credential)) {
+        try {
+            const identity = await verifyGoogleIdToken(credential, auth.google);
+            return { ok: true, authInfo: { token: credential, clientId: identity.subject, scopes: [], extra: { identity } } };
+        } catch (error) {
+            failures.push(`ID token: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    if (auth.oauth) {
+        try {
+            const token = await introspectToken(credential, auth.oauth);
+            const identity: CallerIdentity = { type: 'oauth', subject: token.subject };
+            return {
+                ok: true,
+                authInfo: {
+                    token: credential,
+                    clientId: token.clientId,
+                    scopes: token.scopes,
+                    expiresAt: token.expiresAt,
+                    resource: new URL(auth.oauth.resource),
+                    extra: { identity },
+                },
+            };
+        } catch (error) {
+            failures.push(`access token: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Failure details can include introspection and network errors, so they stay in the server log.
+    if (failures.length > 0) {
+        console.error(`Rejected credential: ${failures.join('; ')}`);
+    }
+    return { ok: false, message: 'Unauthorized: Invalid bearer token or API key', error: 'invalid_token' };
+}
@@ -0,0 +1,62 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import pkg from './package.json' with { type: 'json' };
+import { Config, LoadConfigOptions, loadConfig, parseCli } from './config.js';
+
+export const SERVER_NAME = 'code-assist-mcp';
+export const SERVER_VERSION: string = pkg.version;
+
+export const HELP_TEXT = `Usage: ${SERVER_NAME} [options]
+
+Google Maps Platform Code Assist MCP server.
+
+Options:
+  --transport <mode>             stdio, http or both (default: stdio, http on Cloud Run)
+  --host <host>                  Interface the HTTP transport binds to (default: all interfaces)
+  --port <port>                  Port for the HTTP transport (default: 3000)
+  --config <file>                JSON or YAML configuration file
+  --rag-endpoint <url>           Base URL of the RAG service
+  --default-contexts <list>      Comma-separated contexts added to every search
+  --docs-dir <dir>               Serve searches from a local Markdown/HTML docs directory
+  --allowed-origins <list>       Comma-separated Origin values accepted in production
+  --chat-timeout <ms>            Timeout for RAG search requests
+  --instructions-timeout <ms>    Timeout for RAG instructions requests
+  --max-response-chars <n>       Characters of search results per tool call (default: 100000)
+  --log-level <level>            Minimum level of log messages sent to clients
+  -h, --help                     Show this help and exit
+  -v, --version                  Show the version and exit
+
+Every option can also be set through an environment variable or the
+configuration file; see the README for details.
+`;
+
+export type CliCommand =
+    | { command: 'help' }
+    | { command: 'version' }
+    | { command: 'serve'; config: Config };
+
+// Interprets the command line; throws a `ConfigError` for invalid flags or settings.
+export function parseCommandLine({ argv = process.argv.slice(2), env = process.env }: LoadConfigOptions = {}): CliCommand {
+    const flags = parseCli(argv);
+    if (flags.help) {
+        return { command: 'help' };
+    }
+    if (flags.version) {
+        return { command: 'version' };
+    }
+    return { command: 'serve', config: loadConfig({ argv, env }) };
+}
@@ -14,6 +14,428 @@
  * limitations under the License.
  */
 
-export const ragEndpoint = "https://rag-230009110455.us-central1.run.app"
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
 
-export const DEFAULT_CONTEXTS = ["Google Maps Platform"];
\ No newline at end of file
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+
+export const TRANSPORTS = ['stdio', 'http', 'both'] as const;
+
+export const SESSION_STORES = ['memory', 'file'] as const;
+
+export const EVENT_STORES = ['memory', 'file'] as const;
+
+export const RESULT_CACHE_STORES = ['memory', 'file'] as const;
+
+function isRegExp(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const RateLimitRuleSchema = z.object({
+    // Sustained rate at which the bucket refills.
+    requestsPerMinute: z.number().positive(),
+    // Bucket capacity, i.e. how many calls can be made in a burst; defaults to requestsPerMinute.
+    burst: z.int().positive().optional(),
+}).strict();
+
+export const ConfigSchema = z.object({
+    ragEndpoint: z.url({ protocol: /^https?$/, error: 'must be an http(s) URL' }).transform(url => url.replace(/\/+$/, '')),
+    defaultContexts: z.array(z.string().min(1)),
+    docsDir: z.string().min(1).optional(),
+    transport: z.enum(TRANSPORTS),
+    host: z.string().min(1).optional(),
+    port: z.int().min(0).max(65535),
+    allowedOrigins: z.array(z.string().min(1)),
+    timeouts: z.object({
+        chatMs: z.int().positive(),
+        instructionsMs: z.int().positive(),
+    }).strict(),
+    // Retries of failed RAG service calls (429, 5xx and network errors).
+    retries: z.object({
+        maxRetries: z.int().min(0),
+        baseDelayMs: z.int().positive(),
+        maxDelayMs: z.int().positive(),
+    }).strict(),
+    // Fails RAG service calls fast after this many consecutive failures, for resetTimeoutMs.
+    circuitBreaker: z.object({
+        failureThreshold: z.int().positive(),
+        resetTimeoutMs: z.int().positive(),
+    }).strict(),
+    maxConcurrentRequests: z.int().positive(),
+    // Characters of search results returned per docs tool call; the rest is left for the next page.
+    maxResponseChars: z.int().min(500),
+    // Streams search results from the RAG service and relays each context to the client as it arrives.
+    streaming: z.boolean(),
+    logLevel: z.enum(LOG_LEVELS),
+    logging: z.object({
+        // When false, prompts and search contexts are left out of log messages entirely.
+        logPrompts: z.boolean(),
+        // Regular expressions redacted from log messages, in addition to API keys, email addresses and coordinates.
+        redactPatterns: z.array(z.string().refine(isRegExp, 'must be a valid regular expression')),
+    }).strict(),
+    auth: z.object({
+        apiKeys: z.array(z.union([
+            z.string().min(16, 'API keys must be at least 16 characters'),
+            z.object({
+                name: z.string().min(1),
+                key: z.string().min(16, 'API keys must be at least 16 characters'),
+            }).strict(),
+        ])),
+        google: z.object({
+            audiences: z.array(z.string().min(1)).min(1),
+            allowedEmails: z.array(z.string().min(1)).optional(),
+            hostedDomains: z.array(z.string().min(1)).optional(),
+        }).strict().optional(),
+        oauth: z.object({
+            // Canonical URL of this MCP server, e.g. https://code-assist.example.com/mcp
+            resource: z.url({ protocol: /^https?$/ }),
+            authorizationServers: z.array(z.url({ protocol: /^https?$/ })).min(1),
+            introspectionEndpoint: z.url({ protocol: /^https?$/ }).optional(),
+            clientId: z.string().min(1).optional(),
+            clientSecret: z.string().min(1).optional(),
+            scopesSupported: z.array(z.string().min(1)).optional(),
+            requiredScopes: z.array(z.string().min(1)).optional(),
+            toolScopes: z.record(z.string(), z.array(z.string().min(1))).optional(),
+        }).strict().optional(),
+    }).strict(),
+    rateLimits: z.object({
+        perSession: RateLimitRuleSchema.optional(),
+        perIdentity: RateLimitRuleSchema.optional(),
+        global: RateLimitRuleSchema.optional(),
+    }).strict(),
+    sessions: z.object({
+        // Close HTTP sessions that have not received a request for this long.
+        idleTimeoutMs: z.int().positive(),
+        // Close HTTP sessions this long after they were created, even if active.
+        maxLifetimeMs: z.int().positive().optional(),
+        // When reached, the least recently used session is closed to admit a new one.
+        maxSessions: z.int().positive(),
+        sweepIntervalMs: z.int().positive(),
+        // Where session metadata is kept so any instance can resume a session.
+        store: z.enum(SESSION_STORES),
+        storeDir: z.string().min(1).optional(),
+    }).strict().refine(sessions => sessions.store !== 'file' || sessions.storeDir !== undefined, {
+        path: ['storeDir'],
+        error: 'is required when store is "file"',
+    }),
+    events: z.object({
+        // Where SSE events are kept so clients can resume streams with Last-Event-ID.
+        store: z.enum(EVENT_STORES),
+        storeDir: z.string().min(1).optional(),
+        maxEventsPerStream: z.int().positive(),
+        retentionMs: z.int().positive(),
+        // Total size of the messages the `memory` store holds; the least recently written streams are dropped beyond it.
+        maxBytes: z.int().positive(),
+    }).strict().refine(events => events.store !== 'file' || events.storeDir !== undefined, {
+        path: ['storeDir'],
+        error: 'is required when store is "file"',
+    }),
+    instructions: z.object({
+        ttlMs: z.int().min(0),
+        // How long after the TTL a cached copy is still served while it is refreshed in the background.
+        staleWhileRevalidateMs: z.int().min(0),
+    }).strict(),
+    cache: z.object({
+        // Where docs search results are cached; `file` keeps them across restarts.
+        store: z.enum(RESULT_CACHE_STORES),
+        storeDir: z.string().min(1).optional(),
+        ttlMs: z.int().min(0),
+        // 0 disables the cache.
+        maxEntries: z.int().min(0),
+    }).strict().refine(cache => cache.store !== 'file' || cache.storeDir !== undefined, {
+        path: ['storeDir'],
+        error: 'is required when store is "file"',
+    }),
+}).strict();
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+export const DEFAULT_CONFIG: Config = {
+    ragEndpoint: "https://rag-230009110455.us-central1.run.app",
+    defaultContexts: ["Google Maps Platform"],
+    transport: "stdio",
+    port: 3000,
+    allowedOrigins: [],
+    timeouts: {
+        chatMs: 60000,
+        instructionsMs: 15000,
+    },
+    retries: {
+        maxRetries: 2,
+        baseDelayMs: 250,
+        maxDelayMs: 5000,
+    },
+    circuitBreaker: {
+        failureThreshold: 5,
+        resetTimeoutMs: 30000,
+    },
+    maxConcurrentRequests: 16,
+    maxResponseChars: 100000,
+    streaming: false,
+    logLevel: "debug",
+    logging: {
+        logPrompts: true,
+        redactPatterns: [],
+    },
+    auth: {
+        apiKeys: [],
+    },
+    rateLimits: {
+        perSession: { requestsPerMinute: 60 },
+    },
+    sessions: {
+        idleTimeoutMs: 30 * 60 * 1000,
+        maxLifetimeMs: 24 * 60 * 60 * 1000,
+        maxSessions: 1000,
+        sweepIntervalMs: 60 * 1000,
+        store: "memory",
+    },
+    events: {
+        store: "memory",
+        maxEventsPerStream: 1000,
+        retentionMs: 10 * 60 * 1000,
+        maxBytes: 64 * 1024 * 1024,
+    },
+    instructions: {
+        ttlMs: 60 * 60 * 1000,
+        staleWhileRevalidateMs: 24 * 60 * 60 * 1000,
+    },
+    cache: {
+        store: "memory",
+        ttlMs: 10 * 60 * 1000,
+        maxEntries: 500,
+    },
+};
+
+export class ConfigError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+export interface LoadConfigOptions {
+    argv?: string[];
+    env?: NodeJS.ProcessEnv;
+}
+
+// A partial config plus, for each dotted key it sets, a description of where
+// the value came from so validation errors can point at the right input.
+interface ConfigLayer {
+    values: Record<string, any>;
+    sources: Record<string, string>;
+}
+
+export const CLI_OPTIONS = {
+    'help': { type: 'boolean', short: 'h' },
+    'version': { type: 'boolean', short: 'v' },
+    'config': { type: 'string' },
+    'rag-endpoint': { type: 'string' },
+    'default-contexts': { type: 'string' },
+    'docs-dir': { type: 'string' },
+    'transport': { type: 'string' },
+    'host': { type: 'string' },
+    'port': { type: 'string' },
+    'allowed-origins': { type: 'string' },
+    'chat-timeout': { type: 'string' },
+    'instructions-timeout': { type: 'string' },
+    'max-response-chars': { type: 'string' },
+    'log-level': { type: 'string' },
+} as const;
+
+// Maps each setting to its dotted config key, environment variable and CLI flag.
+// Secrets have no CLI flag so they do not end up in process listings.
+const SETTINGS: { key: string; env: string; flag?: Exclude<keyof typeof CLI_OPTIONS, 'help' | 'version'>; parse: (raw: string) => unknown }[] = [
+    { key: 'ragEndpoint', env: 'RAG_ENDPOINT', flag: 'rag-endpoint', parse: raw => raw },
+    { key: 'defaultContexts', env: 'DEFAULT_CONTEXTS', flag: 'default-contexts', parse: parseList },
+    { key: 'docsDir', env: 'DOCS_DIR', flag: 'docs-dir', parse: raw => raw },
+    { key: 'transport', env: 'MCP_TRANSPORT', flag: 'transport', parse: raw => raw.toLowerCase() },
+    { key: 'host', env: 'HOST', flag: 'host', parse: raw => raw },
+    { key: 'port', env: 'PORT', flag: 'port', parse: parseNumber },
+    { key: 'allowedOrigins', env: 'ALLOWED_ORIGINS', flag: 'allowed-origins', parse: parseList },
+    { key: 'timeouts.chatMs', env: 'RAG_CHAT_TIMEOUT_MS', flag: 'chat-timeout', parse: parseNumber },
+    { key: 'timeouts.instructionsMs', env: 'RAG_INSTRUCTIONS_TIMEOUT_MS', flag: 'instructions-timeout', parse: parseNumber },
+    { key: 'logLevel', env: 'LOG_LEVEL', flag: 'log-level', parse: raw => raw.toLowerCase() },
+    { key: 'logging.logPrompts', env: 'LOG_PROMPTS', parse: parseBoolean },
+    { key: 'retries.maxRetries', env: 'RAG_MAX_RETRIES', parse: parseNumber },
+    { key: 'circuitBreaker.failureThreshold', env: 'RAG_BREAKER_FAILURE_THRESHOLD', parse: parseNumber },
+    { key: 'circuitBreaker.resetTimeoutMs', env: 'RAG_BREAKER_RESET_MS', parse: parseNumber },
+    { key: 'maxConcurrentRequests', env: 'RAG_MAX_CONCURRENT_REQUESTS', parse: parseNumber },
+    { key: 'maxResponseChars', env: 'MAX_RESPONSE_CHARS', flag: 'max-response-chars', parse: parseNumber },
+    { key: 'streaming', env: 'RAG_STREAMING', parse: parseBoolean },
+    { key: 'rateLimits.perSession.requestsPerMinute', env: 'RATE_LIMIT_SESSION_RPM', parse: parseNumber },
+    { key: 'rateLimits.perIdentity.requestsPerMinute', env: 'RATE_LIMIT_IDENTITY_RPM', parse: parseNumber },
+    { key: 'rateLimits.global.requestsPerMinute', env: 'RATE_LIMIT_GLOBAL_RPM', parse: parseNumber },
+    { key: 'sessions.idleTimeoutMs', env: 'SESSION_IDLE_TIMEOUT_MS', parse: parseNumber },
+    { key: 'sessions.maxLifetimeMs', env: 'SESSION_MAX_LIFETIME_MS', parse: parseNumber },
+    { key: 'sessions.maxSessions', env: 'MAX_SESSIONS', parse: parseNumber },
+    { key: 'sessions.store', env: 'SESSION_STORE', parse: raw => raw.toLowerCase() },
+    { key: 'sessions.storeDir', env: 'SESSION_STORE_DIR', parse: raw => raw },
+    { key: 'events.store', env: 'EVENT_STORE', parse: raw => raw.toLowerCase() },
+    { key: 'events.storeDir', env: 'EVENT_STORE_DIR', parse: raw => raw },
+    { key: 'events.retentionMs', env: 'EVENT_RETENTION_MS', parse: parseNumber },
+    { key: 'events.maxBytes', env: 'EVENT_STORE_MAX_BYTES', parse: parseNumber },
+    { key: 'instructions.ttlMs', env: 'INSTRUCTIONS_TTL_MS', parse: parseNumber },
+    { key: 'instructions.staleWhileRevalidateMs', env: 'INSTRUCTIONS_STALE_WHILE_REVALIDATE_MS', parse: parseNumber },
+    { key: 'cache.store', env: 'RESULT_CACHE_STORE', parse: raw => raw.toLowerCase() },
+    { key: 'cache.storeDir', env: 'RESULT_CACHE_DIR', parse: raw => raw },
+    { key: 'cache.ttlMs', env: 'RESULT_CACHE_TTL_MS', parse: parseNumber },
+    { key: 'cache.maxEntries', env: 'RESULT_CACHE_MAX_ENTRIES', parse: parseNumber },
+    { key: 'auth.apiKeys', env: 'CODE_ASSIST_API_KEYS', parse: parseList },
+    { key: 'auth.google.audiences', env: 'GOOGLE_ID_TOKEN_AUDIENCES', parse: parseList },
+    { key: 'auth.oauth.resource', env: 'OAUTH_RESOURCE', parse: raw => raw },
+    { key: 'auth.oauth.authorizationServers', env: 'OAUTH_AUTHORIZATION_SERVERS', parse: parseList },
+    { key: 'auth.oauth.clientId', env: 'OAUTH_CLIENT_ID', parse: raw => raw },
+    { key: 'auth.oauth.clientSecret', env: 'OAUTH_CLIENT_SECRET', parse: raw => raw },
+];
+
+function parseList(raw: string): string[] {
+    return raw.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+// Left as the raw string when it is not numeric so the schema reports it.
+function parseNumber(raw: string): number | string {
+    return raw.trim() !== '' && !isNaN(Number(raw)) ? Number(raw) : raw;
+}
+
+// Left as the raw string when it is not a boolean so the schema reports it.
+function parseBoolean(raw: string): boolean | string {
+    const value = raw.trim().toLowerCase();
+    if (['true', '1', 'yes'].includes(value)) {
+        return true;
+    }
+    if (['false', '0', 'no'].includes(value)) {
+        return false;
+    }
+    return raw;
+}
+
+function setPath(target: Record<string, any>, key: string, value: unknown) {
+    const parts = key.split('.');
+    let node = target;
+    for (const part of parts.slice(0, -1)) {
+        node[part] = node[part] ?? {};
+        node = node[part];
+    }
+    node[parts[parts.length - 1]] = value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeDeep(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        result[key] = isPlainObject(value) && isPlainObject(result[key]) ? mergeDeep(result[key], value) : value;
+    }
+    return result;
+}
+
+function collectSources(values: Record<string, any>, source: string, prefix = ''): Record<string, string> {
+    const sources: Record<string, string> = {};
+    for (const [key, value] of Object.entries(values)) {
+        const dotted = prefix ? `${prefix}.${key}` : key;
+        sources[dotted] = source;
+        if (isPlainObject(value)) {
+            Object.assign(sources, collectSources(value, source, dotted));
+        }
+    }
+    return sources;
+}
+
+function readConfigFile(file: string): ConfigLayer {
+    let raw: string;
+    try {
+        raw = fs.readFileSync(file, 'utf8');
+    } catch (error: any) {
+        throw new ConfigError([`could not read config file ${file}: ${error.message}`]);
+    }
+
+    let values: unknown;
+    try {
+        values = /\.ya?ml$/i.test(file) ? parseYaml(raw) : JSON.parse(raw);
+    } catch (error: any) {
+        throw new ConfigError([`could not parse config file ${file}: ${error.message}`]);
+    }
+
+    if (values === null || values === undefined) {
+        values = {};
+    }
+    if (!isPlainObject(values)) {
+        throw new ConfigError([`config file ${file} must contain an object at the top level`]);
+    }
+
+    return { values, sources: collectSources(values, `config file ${path.basename(file)}`) };
+}
+
+export function parseCli(argv: string[]) {
+    try {
+        return parseArgs({ args: argv, options: CLI_OPTIONS, strict: true, allowPositionals: false }).values;
+    } catch (error: any) {
+        throw new ConfigError([error.message]);
+    }
+}
+
+function layerFrom(lookup: (setting: typeof SETTINGS[number]) => string | undefined, describe: (setting: typeof SETTINGS[number]) => string): ConfigLayer {
+    const layer: ConfigLayer = { values: {}, sources: {} };
+    for (const setting of SETTINGS) {
+        const raw = lookup(setting);
+        if (raw === undefined) continue;
+        setPath(layer.values, setting.key, setting.parse(raw));
+        layer.sources[setting.key] = describe(setting);
+    }
+    return layer;
+}
+
+/**
+ * Builds the runtime configuration from, in increasing order of precedence:
+ * built-in defaults, platform defaults (HTTP-only on Cloud Run), a JSON/YAML
+ * config file (`--config` or `CODE_ASSIST_CONFIG`), environment variables and
+ * CLI flags. Throws a `ConfigError` listing every invalid setting and where it
+ * was set.
+ */
+export function loadConfig({ argv = process.argv.slice(2), env = process.env }: LoadConfigOptions = {}): Config {
+    const cli = parseCli(argv);
+
+    const layers: ConfigLayer[] = [];
+    if (env.K_SERVICE) {
+        // Cloud Run only routes traffic to the HTTP port; there is no stdio client.
+        layers.push({ values: { transport: 'http' }, sources: { transport: 'Cloud Run environment (K_SERVICE)' } });
+    }
+    const configFile = cli['config'] ?? env.CODE_ASSIST_CONFIG;
+    if (configFile) {
+        layers.push(readConfigFile(configFile));
+    }
+    layers.push(layerFrom(setting => env[setting.env], setting => `environment variable ${setting.env}`));
+    layers.push(layerFrom(setting => setting.flag && cli[setting.flag], setting => `--${setting.flag}`));
+
+    let merged: Record<string, any> = DEFAULT_CONFIG;
+    const sources: Record<string, string> = {};
+    for (const layer of layers) {
+        merged = mergeDeep(merged, layer.values);
+        Object.assign(sources, layer.sources);
+    }
+
+    const result = ConfigSchema.safeParse(merged);
+    if (!result.success) {
+        throw new ConfigError(result.error.issues.map(issue => {
+            const key = issue.path.join('.');
+            // Attribute the issue to the most specific key some layer set.
+            const source = issue.path
+                .map((_, i) => sources[issue.path.slice(0, issue.path.length - i).join('.')])
+                .find(found => found !== undefined);
+            const label = key || 'config';
+            return source ? `${label} (from ${source}): ${issue.message}` : `${label}: ${issue.message}`;
+        }));
+    }
+    return result.data;
+}
@@ -0,0 +1,88 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+// A documentation page (`docs`, grouped by product) or a file of a code sample repository (`samples`).
+export type DocumentCollection = 'docs' | 'samples';
+
+export interface DocumentRef {
+    collection: DocumentCollection;
+    // Product of a documentation page, or repository of a sample file.
+    group: string;
+    // Path of the page or file within its product or repository, using `/` separators.
+    path: string;
+}
+
+export interface DocumentInfo extends DocumentRef {
+    title?: string;
+    mimeType?: string;
+}
+
+export interface Document extends DocumentInfo {
+    text: string;
+}
+
+const SCHEMES: Record<DocumentCollection, string> = {
+    docs: 'gmp-docs',
+    samples: 'gmp-samples',
+};
+
+export const DOCS_TEMPLATE: ResourceTemplate = {
+    name: 'gmp-docs',
+    title: 'Google Maps Platform documentation page',
+    uriTemplate: 'gmp-docs://{product}/{path}',
+    description: 'The full text of a documentation page. `path` may contain `/`. Read a page to get the complete context around a retrieve-google-maps-platform-docs search hit.',
+};
+
+export const SAMPLES_TEMPLATE: ResourceTemplate = {
+    name: 'gmp-samples',
+    title: 'Google Maps Platform code sample file',
+    uriTemplate: 'gmp-samples://{repo}/{file}',
+    description: 'A file of a Google Maps Platform code sample repository. `file` may contain `/`.',
+};
+
+export const RESOURCE_TEMPLATES = [DOCS_TEMPLATE, SAMPLES_TEMPLATE];
+
+export function documentUri(ref: DocumentRef): string {
+    const encode = (value: string) => value.split('/').map(encodeURIComponent).join('/');
+    return `${SCHEMES[ref.collection]}://${encodeURIComponent(ref.group)}/${encode(ref.path)}`;
+}
+
+/**
+ * Parses a `gmp-docs://` or `gmp-samples://` URI. Returns undefined for other
+ * URIs and for paths that could escape their product or repository.
+ */
+export function parseDocumentUri(uri: string): DocumentRef | undefined {
+    const match = uri.match(/^([a-z-]+):\/\/([^/]+)\/(.+)$/);
+    const collection = (Object.keys(SCHEMES) as DocumentCollection[]).find(key => SCHEMES[key] === match?.[1]);
+    if (!match || !collection) {
+        return undefined;
+    }
+    let group: string;
+    let segments: string[];
+    try {
+        group = decodeURIComponent(match[2]);
+        // Clients filling in the template may percent-encode the slashes of a path.
+        segments = decodeURIComponent(match[3]).split('/');
+    } catch {
+        return undefined;
+    }
+    if (group.includes('/') || group === '.' || group === '..' || segments.some(segment => segment === '' || segment === '.' || segment === '..' || segment.includes('\\'))) {
+        return undefined;
+    }
+    return { collection, group, path: segments.join('/') };
+}
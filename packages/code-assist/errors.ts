@@ -0,0 +1,139 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { CircuitOpenError, isBackendFailure, isCancellation } from './resilience.js';
+
+/**
+ * Machine-readable codes of failed tool calls, returned in the `error` field
+ * of an `isError` tool result.
+ */
+export type ToolErrorCode =
+    // The RAG service is down, overloaded or unreachable; retrying later may succeed.
+    | 'backend_unavailable'
+    // The RAG service did not answer within the configured timeout.
+    | 'timeout'
+    // This server's or the RAG service's rate limit was exceeded.
+    | 'rate_limited'
+    // The RAG service rejected the request or returned an unusable response.
+    | 'backend_error'
+    // The client cancelled the call before it completed.
+    | 'cancelled';
+
+const HINTS: Record<ToolErrorCode, string> = {
+    backend_unavailable: 'The documentation service is temporarily unavailable. Retry later, or continue without documentation and tell the user it could not be retrieved.',
+    timeout: 'The documentation service did not respond in time. Retry once, preferably with a shorter and more specific prompt.',
+    rate_limited: 'Too many documentation requests. Wait retryAfterSeconds before calling the tool again.',
+    backend_error: 'The documentation service could not answer this request. Do not retry the same request.',
+    cancelled: 'The call was cancelled. Do not retry it unless the user asks to.',
+};
+
+export class ToolError extends Error {
+    constructor(
+        public readonly code: ToolErrorCode,
+        message: string,
+        public readonly details: { retryAfterSeconds?: number; [key: string]: unknown } = {},
+    ) {
+        super(message);
+        this.name = 'ToolError';
+    }
+
+    toResult(): { isError: true; content: [{ type: 'text'; text: string }] } {
+        return {
+            isError: true,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({ error: this.code, message: this.message, hint: HINTS[this.code], ...this.details }),
+            }],
+        };
+    }
+}
+
+// JSON-RPC error for a tools/call naming a tool this server does not provide.
+export function unknownToolError(name: string): McpError {
+    return new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`, { code: 'unknown_tool', tool: name });
+}
+
+type ArgumentIssue = { path: string; message: string };
+
+function summarize(issues: ArgumentIssue[]): string {
+    return issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ');
+}
+
+// JSON-RPC error for tool arguments that do not match the tool's input schema.
+export function invalidArgumentsError(tool: string, issues: ArgumentIssue[]): McpError {
+    return new McpError(ErrorCode.InvalidParams, `Invalid arguments for tool ${tool}: ${summarize(issues)}`, { code: 'invalid_arguments', tool, issues });
+}
+
+// JSON-RPC error for a prompts/get naming a prompt this server does not provide.
+export function unknownPromptError(name: string): McpError {
+    return new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`, { code: 'unknown_prompt', prompt: name });
+}
+
+// JSON-RPC error for missing or invalid prompt arguments.
+export function invalidPromptArgumentsError(prompt: string, issues: ArgumentIssue[]): McpError {
+    return new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${prompt}: ${summarize(issues)}`, { code: 'invalid_arguments', prompt, issues });
+}
+
+// MCP error code for a resources/read of a resource that does not exist.
+export const RESOURCE_NOT_FOUND = -32002;
+
+export function resourceNotFoundError(uri: string): McpError {
+    return new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { code: 'resource_not_found', uri });
+}
+
+// JSON-RPC error for a list request with a cursor this server did not issue.
+export function invalidCursorError(cursor: string): McpError {
+    return new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`, { code: 'invalid_cursor', cursor });
+}
+
+function retryAfterSeconds(error: any): number | undefined {
+    const retryAfter = Number(error?.response?.headers?.['retry-after']);
+    return Number.isFinite(retryAfter) && retryAfter >= 0 ? Math.ceil(retryAfter) : undefined;
+}
+
+/**
+ * Maps a failed RAG backend call (an axios error, a `CircuitOpenError` or any
+ * other error) to a `ToolError`.
+ */
+export function classifyBackendError(error: unknown): ToolError {
+    const failure = error as any;
+    if (failure instanceof ToolError) {
+        return failure;
+    }
+    if (isCancellation(failure)) {
+        return new ToolError('cancelled', 'The tool call was cancelled');
+    }
+    if (failure instanceof CircuitOpenError) {
+        return new ToolError('backend_unavailable', failure.message, { retryAfterSeconds: Math.ceil(failure.retryAfterMs / 1000) });
+    }
+    if (failure?.code === 'ECONNABORTED' || failure?.code === 'ETIMEDOUT') {
+        return new ToolError('timeout', 'The documentation service timed out');
+    }
+    const status: number | undefined = failure?.response?.status;
+    if (status === 429) {
+        return new ToolError('rate_limited', 'The documentation service is rate limiting requests', { retryAfterSeconds: retryAfterSeconds(failure) });
+    }
+    if (isBackendFailure(failure)) {
+        return new ToolError(
+            'backend_unavailable',
+            status ? `The documentation service returned HTTP ${status}` : `The documentation service is unreachable (${failure.code})`,
+            { retryAfterSeconds: retryAfterSeconds(failure) },
+        );
+    }
+    const reason = status ? `HTTP ${status}` : failure instanceof Error ? failure.message : String(failure);
+    return new ToolError('backend_error', `The documentation service request failed: ${reason}`);
+}
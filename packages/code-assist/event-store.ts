@@ -0,0 +1,275 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { randomBytes } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { Config } from './config.js';
+import { hashedFileName, writeFileAtomically } from './files.js';
+
+export type EventStoreLimits = Pick<Config['events'], 'maxEventsPerStream' | 'retentionMs'> & Partial<Pick<Config['events'], 'maxBytes'>>;
+
+interface StoredEvent {
+    id: EventId;
+    message: JSONRPCMessage;
+    storedAt: number;
+}
+
+type Send = (eventId: EventId, message: JSONRPCMessage) => Promise<void>;
+
+// Event IDs are `<streamId>_<random>`, so the stream can be recovered from a Last-Event-ID alone.
+function newEventId(streamId: StreamId): EventId {
+    return `${streamId}_${randomBytes(8).toString('hex')}`;
+}
+
+function streamIdOf(eventId: EventId): StreamId | undefined {
+    const separator = eventId.lastIndexOf('_');
+    return separator > 0 ? eventId.slice(0, separator) : undefined;
+}
+
+// Sends the retained events that follow `lastEventId`; nothing if it is no longer retained.
+async function replayAfter(events: StoredEvent[], lastEventId: EventId, send: Send) {
+    const index = events.findIndex(event => event.id === lastEventId);
+    if (index < 0) {
+        return;
+    }
+    for (const event of events.slice(index + 1)) {
+        await send(event.id, event.message);
+    }
+}
+
+/**
+ * Keeps the most recent `maxEventsPerStream` events of each SSE stream for
+ * `retentionMs`, so a client that reconnects with `Last-Event-ID` receives the
+ * messages it missed. Only the instance that stored the events can replay them.
+ * Beyond `maxBytes` of messages, the least recently written streams are dropped.
+ */
+export class InMemoryEventStore implements EventStore {
+    // Kept in least recently written order so the oldest streams are dropped first.
+    private readonly streams = new Map<StreamId, StoredEvent[]>();
+    private readonly sizes = new WeakMap<StoredEvent, number>();
+    private bytes = 0;
+
+    constructor(private readonly limits: EventStoreLimits, private readonly now: () => number = Date.now) {}
+
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+        const now = this.now();
+        this.prune(now);
+        const events = this.streams.get(streamId) ?? [];
+        const event = { id: newEventId(streamId), message, storedAt: now };
+        const size = JSON.stringify(message).length;
+        this.sizes.set(event, size);
+        this.bytes += size;
+        events.push(event);
+        if (events.length > this.limits.maxEventsPerStream) {
+            this.release(events.splice(0, events.length - this.limits.maxEventsPerStream));
+        }
+        this.streams.delete(streamId);
+        this.streams.set(streamId, events);
+        this.evict();
+        return event.id;
+    }
+
+    async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+        return streamIdOf(eventId);
+    }
+
+    async replayEventsAfter(lastEventId: EventId, { send }: { send: Send }): Promise<StreamId> {
+        const streamId = streamIdOf(lastEventId) ?? '';
+        const now = this.now();
+        const events = (this.streams.get(streamId) ?? []).filter(event => now - event.storedAt < this.limits.retentionMs);
+        await replayAfter(events, lastEventId, send);
+        return streamId;
+    }
+
+    // Drops streams whose latest event has expired.
+    private prune(now: number) {
+        for (const [streamId, events] of this.streams) {
+            if (now - events[events.length - 1].storedAt < this.limits.retentionMs) {
+                // Streams are in write order, so the remaining ones were written later.
+                break;
+            }
+            this.streams.delete(streamId);
+            this.release(events);
+        }
+    }
+
+    // Drops the least recently written streams, then the oldest events of the last one, until `maxBytes` is met.
+    private evict() {
+        if (this.limits.maxBytes === undefined) {
+            return;
+        }
+        for (const [streamId, events] of this.streams) {
+            if (this.bytes <= this.limits.maxBytes) {
+                return;
+            }
+            if (this.streams.size > 1) {
+                this.streams.delete(streamId);
+                this.release(events);
+            } else {
+                while (events.length > 1 && this.bytes > this.limits.maxBytes) {
+                    this.release(events.splice(0, 1));
+                }
+            }
+        }
+    }
+
+    private release(events: StoredEvent[]) {
+        for (const event of events) {
+            this.bytes -= this.sizes.get(event) ?? 0;
+        }
+    }
+}
+
+/**
+ * Appends the events of each SSE stream to JSON Lines files in `dir`. When
+ * the directory is shared between instances, a client can resume a stream
+ * from any of them. Every instance appends to its own file per stream and
+ * only compacts that file, so instances never overwrite each other's events;
+ * replays merge the files of the stream.
+ */
+export class FileEventStore implements EventStore {
+    // Events appended per stream file by this instance since it was last compacted.
+    private readonly appended = new Map<string, number>();
+    private readonly writer = randomBytes(8).toString('hex');
+    private lastSweep = 0;
+
+    constructor(private readonly dir: string, private readonly limits: EventStoreLimits, private readonly now: () => number = Date.now) {}
+
+    private streamPrefix(streamId: StreamId): string {
+        return `${hashedFileName(streamId)}.`;
+    }
+
+    private file(streamId: StreamId): string {
+        return path.join(this.dir, `${this.streamPrefix(streamId)}${this.writer}.jsonl`);
+    }
+
+    // The retained events of a stream from the files of all instances, oldest first.
+    private async readStream(streamId: StreamId): Promise<StoredEvent[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.dir);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+        const prefix = this.streamPrefix(streamId);
+        const files = names.filter(name => name.startsWith(prefix) && name.endsWith('.jsonl'));
+        const events = (await Promise.all(files.map(name => this.read(path.join(this.dir, name))))).flat();
+        // Each file is in write order, and the sort is stable.
+        return events.sort((a, b) => a.storedAt - b.storedAt).slice(-this.limits.maxEventsPerStream);
+    }
+
+    private async read(file: string): Promise<StoredEvent[]> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(file, 'utf8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+        const now = this.now();
+        return contents.split('\n')
+            .filter(line => line.length > 0)
+            .map(line => JSON.parse(line) as StoredEvent)
+            .filter(event => now - event.storedAt < this.limits.retentionMs);
+    }
+
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+        await fs.mkdir(this.dir, { recursive: true });
+        const file = this.file(streamId);
+        const event: StoredEvent = { id: newEventId(streamId), message, storedAt: this.now() };
+        await fs.appendFile(file, `${JSON.stringify(event)}\n`);
+
+        const appended = (this.appended.get(file) ?? 0) + 1;
+        this.appended.set(file, appended);
+        if (appended >= this.limits.maxEventsPerStream) {
+            await this.compact(file);
+        }
+        await this.sweep();
+        return event.id;
+    }
+
+    async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+        return streamIdOf(eventId);
+    }
+
+    async replayEventsAfter(lastEventId: EventId, { send }: { send: Send }): Promise<StreamId> {
+        const streamId = streamIdOf(lastEventId) ?? '';
+        await replayAfter(await this.readStream(streamId), lastEventId, send);
+        return streamId;
+    }
+
+    // Rewrites this instance's file of a stream with only its retained events.
+    private async compact(file: string) {
+        const events = (await this.read(file)).slice(-this.limits.maxEventsPerStream);
+        await writeFileAtomically(file, events.map(event => `${JSON.stringify(event)}\n`).join(''));
+        this.appended.set(file, 0);
+    }
+
+    // Deletes stream files not written to within the retention period, at most once per period.
+    private async sweep() {
+        const now = this.now();
+        if (now - this.lastSweep < this.limits.retentionMs) {
+            return;
+        }
+        this.lastSweep = now;
+        for (const name of await fs.readdir(this.dir)) {
+            const file = path.join(this.dir, name);
+            try {
+                if (now - (await fs.stat(file)).mtimeMs >= this.limits.retentionMs) {
+                    await fs.rm(file, { force: true });
+                    this.appended.delete(file);
+                }
+            } catch {
+                // Deleted concurrently by another instance.
+            }
+        }
+    }
+}
+
+/**
+ * Scopes a shared event store to one session. The SDK uses fixed stream IDs
+ * such as `_GET_stream` in every session, so stream IDs are prefixed with the
+ * session ID. A `Last-Event-ID` from another session is rejected rather than
+ * replayed.
+ */
+export function sessionEventStore(store: EventStore, sessionId: string): EventStore {
+    const prefix = `${sessionId}:`;
+    const unscoped = (streamId: StreamId | undefined) => streamId?.startsWith(prefix) ? streamId.slice(prefix.length) : undefined;
+    return {
+        storeEvent: (streamId, message) => store.storeEvent(prefix + streamId, message),
+        getStreamIdForEventId: async (eventId) => unscoped(streamIdOf(eventId)),
+        replayEventsAfter: async (lastEventId, { send }) => {
+            const streamId = unscoped(streamIdOf(lastEventId));
+            if (streamId === undefined) {
+                throw new Error(`Event ${lastEventId} does not belong to session ${sessionId}`);
+            }
+            await store.replayEventsAfter(lastEventId, { send });
+            return streamId;
+        },
+    };
+}
+
+export function createEventStore(events: Config['events']): EventStore {
+    return events.store === 'file' ? new FileEventStore(events.storeDir!, events) : new InMemoryEventStore(events);
+}
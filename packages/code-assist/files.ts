@@ -0,0 +1,33 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+
+// Distinguishes the temporary files of concurrent writes in this process.
+let writes = 0;
+
+// Writes to a temporary file and renames it, so readers never see a partial file.
+export async function writeFileAtomically(file: string, contents: string): Promise<void> {
+    const temporary = `${file}.${process.pid}.${writes++}.tmp`;
+    await fs.writeFile(temporary, contents);
+    await fs.rename(temporary, file);
+}
+
+// IDs that come from requests are hashed rather than used as file names, so they cannot name other files.
+export function hashedFileName(id: string): string {
+    return createHash('sha256').update(id).digest('hex');
+}
@@ -20,10 +20,37 @@ import cors from 'cors';
 import { randomUUID } from "node:crypto";
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { Tool, CallToolRequest, CallToolRequestSchema, ListToolsRequestSchema, Resource, ListResourcesRequestSchema, ReadResourceRequest, ReadResourceRequestSchema, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
-import { ragEndpoint, DEFAULT_CONTEXTS } from './config.js';
-import axios from 'axios';
+import { EventStore, StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolRequest, CallToolRequestSchema, ListToolsRequestSchema, Resource, ListResourcesRequest, ListResourcesRequestSchema, ListResourceTemplatesRequestSchema, ReadResourceRequest, GetPromptRequest, McpError, GetPromptRequestSchema, ListPromptsRequestSchema, ReadResourceRequestSchema, SetLevelRequestSchema, SubscribeRequest, SubscribeRequestSchema, UnsubscribeRequestSchema, LoggingMessageNotification, ServerNotification, ServerRequest, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Config, ConfigError, DEFAULT_CONFIG } from './config.js';
+import { HELP_TEXT, SERVER_NAME, SERVER_VERSION, parseCommandLine } from './cli.js';
+import { RagBackend, RagChatResponse, HttpRagBackend } from './rag.js';
+import { LocalRagBackend } from './local-rag.js';
+import { SessionRegistry, changesSessionState, resumeSession } from './sessions.js';
+import { resourceSubscriptions } from './subscriptions.js';
+import { clientLogLevel, createRedactor, isLogged, setClientLogLevel } from './logging.js';
+import { createSessionStore } from './session-store.js';
+import { createEventStore, sessionEventStore } from './event-store.js';
+import { AuthConfig, CallerIdentity, authenticateRequest, getCallerIdentity, isSameCaller } from './auth.js';
+import { RateLimitKeys, RateLimiter } from './ratelimit.js';
+import { ToolError, classifyBackendError, invalidCursorError, resourceNotFoundError, unknownPromptError, unknownToolError } from './errors.js';
+import { PROMPTS, findPrompt, parsePromptArguments } from './prompts.js';
+import { InstructionsCache } from './instructions-cache.js';
+import { ResultCache, createResultCache, resultCacheKey } from './result-cache.js';
+import { SearchFilters, SearchResult, decodeCursor, dedupeResults, encodeCursor, fitToBudget, matchesFilters, rankByRelevance, searchFingerprint } from './search.js';
+import { RESOURCE_TEMPLATES, documentUri, parseDocumentUri } from './documents.js';
+import { Citation, RetrieveDocsArguments, RetrieveDocsOutput, RetrieveInstructions, TOOLS, toCitations, toDocContext, findTool, parseToolArguments } from './tools.js';
+import { RESOURCE_METADATA_PATH, bearerChallenge, protectedResourceMetadata, requiredScopesFor } from './oauth.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+export { SessionRegistry } from './sessions.js';
+export type { Session } from './sessions.js';
+export { InMemorySessionStore, FileSessionStore } from './session-store.js';
+export type { SessionStore, StoredSession } from './session-store.js';
+export { InMemoryEventStore, FileEventStore } from './event-store.js';
+export { ResultCache, InMemoryResultCacheStore, FileResultCacheStore } from './result-cache.js';
+export type { ResultCacheStore, CachedResult } from './result-cache.js';
 
 // MCP Streamable HTTP compliance: Accept header validation
 function validateAcceptHeader(req: Request): boolean {
@@ -35,7 +62,7 @@ function validateAcceptHeader(req: Request): boolean {
 }
 
 // Feature 4: Origin header validation for DNS rebinding protection
-function validateOriginHeader(req: Request): boolean {
+function validateOriginHeader(req: Request, allowedOrigins: string[]): boolean {
   const origin = req.headers.origin;
   
   // Allow requests without Origin header (server-to-server)
@@ -47,46 +74,9 @@ function validateOriginHeader(req: Request): boolean {
   }
   
   // In production, validate against allowed origins
-  const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [];
   return allowedOrigins.includes(origin);
 }
 
-const RetrieveGoogleMapsPlatformDocs: Tool = {
-    name: 'retrieve-google-maps-platform-docs',
-    description: 'Searches Google Maps Platform documentation, code samples, GitHub repositories, and terms of service to answer user questions. IMPORTANT: Before calling this tool, call the `retrieve-instructions` tool or load the `instructions` resource to add crucial system instructions and preamble to context.',
-    inputSchema: {
-        type: 'object',
-        properties: {
-            prompt: {
-                type: 'string',
-                description: `You are an expert prompt engineer for a Retrieval-Augmented Generation (RAG) system.
-
-**Instructions:**
-1.  Analyze the user's intent (e.g., are they trying to implement, troubleshoot, or learn?).
-2.  Identify the Google Maps Platform product and feature the user is asking about.
-3.  You must keep all details provided by the user in the original query.
-4.  Do not remove key information provided in the request, such as city, country, address, or lat/lng.
-5.  Add extra information that is relevant to the RAG system without removing user provided information.`,
-            },
-            search_context: {
-                type: 'array',
-                items: { type: "string" },
-                description: 'Supplemental context to aid the search if the prompt alone is ambiguous or too broad. Put names of existing Google Maps Platform products or features specified in the user prompt.'
-            }
-        },
-        required: ['prompt'],
-    },
-};
-
-const RetrieveInstructions: Tool = {
-    name: 'retrieve-instructions',
-    description: 'Retrieves system instructions, preamble for using the retrieve-google-maps-platform-docs tool.',
-    inputSchema: {
-        type: 'object',
-        properties: {},
-    },
-};
-
 const instructionsResource: Resource = {
     name: 'instructions',
     title: 'Instructions containing system instructions and preamble.',
@@ -95,188 +85,521 @@ const instructionsResource: Resource = {
     description: 'Provides system instructions, preamble for using the retrieve-google-maps-platform-docs tool.'
 };
 
-let usageInstructions: any = null;
+// Resources returned per resources/list page.
+const RESOURCES_PAGE_SIZE = 100;
+
+// Most results a docs search asks the RAG backend for while filling a page.
+const MAX_BACKEND_RESULTS = 500;
+
+let config: Config = DEFAULT_CONFIG;
+
+let ragBackend: RagBackend = createRagBackend(config);
+
+// Servers of all stdio and HTTP sessions, told when resources or the configuration change
+const activeServers = new Set<Server>();
+
+let instructionsCache = createInstructionsCache();
+
+let rateLimiter = new RateLimiter(config.rateLimits);
+
+let resultCache = createResultCache(config.cache);
 
-// Session management for StreamableHTTP transport
-const transports = new Map<string, StreamableHTTPServerTransport>();
+let redact = createRedactor(config.logging.redactPatterns);
+
+// Sessions of the HTTP transport started by runServer, closed on shutdown
+let httpSessions: SessionRegistry | null = null;
 
 export function _setUsageInstructions(value: any) {
-    usageInstructions = value;
+    instructionsCache = createInstructionsCache();
+    if (value) {
+        const [systemInstructions, preamble, europeanEconomicAreaTermsDisclaimer] = value;
+        instructionsCache.set({ systemInstructions, preamble, europeanEconomicAreaTermsDisclaimer });
+    }
 }
 
-export async function getUsageInstructions(server: Server) {
-    if (usageInstructions) {
-        return usageInstructions;
+export function setRagBackend(backend: RagBackend) {
+    ragBackend = backend;
+    instructionsCache = createInstructionsCache();
+    resultCache = createResultCache(config.cache);
+}
+
+function createInstructionsCache(): InstructionsCache {
+    const cache = new InstructionsCache(ragBackend, config.instructions);
+    cache.onUpdate(() => notifyResourceUpdated(instructionsResource.uri));
+    return cache;
+}
+
+// Sends `notifications/resources/updated` to every client subscribed to `uri`.
+function notifyResourceUpdated(uri: string) {
+    for (const server of activeServers) {
+        if (resourceSubscriptions(server).has(uri)) {
+            server.sendResourceUpdated({ uri }).catch(ignoreDisconnected);
+        }
     }
-    try {
-        const ragResponse = await axios.get(ragEndpoint.concat("/instructions"));
+}
+
+function ignoreDisconnected() {
+    // Not connected yet, or already disconnected.
+}
+
+export function createRagBackend(config: Config): RagBackend {
+    if (config.docsDir) {
+        return new LocalRagBackend(config.docsDir);
+    }
+    return new HttpRagBackend(config.ragEndpoint, config.timeouts, config);
+}
+
+export function getConfig(): Config {
+    return config;
+}
+
+/**
+ * Applies a new configuration. Connected clients are told that the tool and
+ * resource lists changed, and subscribers that their resources were updated,
+ * as both may now come from a different backend.
+ */
+export function setConfig(newConfig: Config) {
+    config = newConfig;
+    setRagBackend(createRagBackend(newConfig));
+    rateLimiter = new RateLimiter(newConfig.rateLimits);
+    redact = createRedactor(newConfig.logging.redactPatterns);
+    for (const server of activeServers) {
+        server.sendToolListChanged().catch(ignoreDisconnected);
+        server.sendResourceListChanged().catch(ignoreDisconnected);
+        for (const uri of resourceSubscriptions(server)) {
+            server.sendResourceUpdated({ uri }).catch(ignoreDisconnected);
+        }
+    }
+}
 
-        usageInstructions = [
-            ragResponse.data.systemInstructions,
-            ragResponse.data.preamble,
-            ragResponse.data.europeanEconomicAreaTermsDisclaimer
-        ];
+export function setRateLimiter(limiter: RateLimiter) {
+    rateLimiter = limiter;
+}
 
-        return usageInstructions;
+export function setResultCache(cache: ResultCache) {
+    resultCache = cache;
+}
 
-    } catch (error) {
-        server.sendLoggingMessage({
+// Sends a log notification, with sensitive text redacted, unless it is below the configured or the client's log level.
+function logToClient(server: Server, params: LoggingMessageNotification['params']) {
+    if (!isLogged(params.level, config.logLevel, clientLogLevel(server))) {
+        return;
+    }
+    server.sendLoggingMessage({ ...params, data: redact(params.data) });
+}
+
+// Returns the usage instructions, fetching them from the RAG backend on first use.
+async function fetchUsageInstructions(): Promise<string[]> {
+    const instructions = await instructionsCache.get();
+    return [
+        instructions.systemInstructions,
+        instructions.preamble,
+        instructions.europeanEconomicAreaTermsDisclaimer
+    ];
+}
+
+// Returns the cached instructions, or the bundled copy while the RAG service cannot be reached.
+export async function getUsageInstructions(server: Server) {
+    const instructions = await fetchUsageInstructions();
+    const error = instructionsCache.error();
+    if (error) {
+        logToClient(server, {
             level: "error",
-            data: `Error fetching usage instructions: ${error}`,
+            data: `Error fetching usage instructions, using the bundled copy: ${error}`,
         });
-        return null;
     }
+    return instructions;
 }
 
 export const getServer = () => {
     const server = new Server(
         {
-            name: "code-assist-mcp",
-            version: "0.1.7",
+            name: SERVER_NAME,
+            version: SERVER_VERSION,
         },
         {
             capabilities: {
-                tools: {},
+                tools: { listChanged: true },
                 logging: {},
-                resources: {}
+                resources: { subscribe: true, listChanged: true },
+                prompts: {}
             },
         }
     );
 
     // Set up request handlers
     server.setRequestHandler(ListToolsRequestSchema, async () => ({
-        tools: [RetrieveGoogleMapsPlatformDocs, RetrieveInstructions],
+        tools: TOOLS.map(definition => definition.tool),
     }));
 
-    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-        resources: [instructionsResource],
-    }));
+    server.setRequestHandler(ListResourcesRequestSchema, (request) => handleListResources(request));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, () => handleListResourceTemplates());
 
     server.setRequestHandler(ReadResourceRequestSchema, (request) => handleReadResource(request, server));
-    server.setRequestHandler(CallToolRequestSchema, (request) => handleCallTool(request, server));
+
+    // Replaces the SDK's handler, which only filters messages sent with an explicit session ID.
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+        setClientLogLevel(server, request.params.level);
+        return {};
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, (request) => handleSubscribe(request, server));
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        resourceSubscriptions(server).delete(request.params.uri);
+        return {};
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+        prompts: PROMPTS.map(definition => definition.prompt),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, (request) => handleGetPrompt(request, server));
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) => handleCallTool(request, server, extra));
+
+    activeServers.add(server);
+    server.onclose = () => activeServers.delete(server);
 
     return server;
 };
 
+// Subscribes the client to updates of the instructions or a documentation resource the backend serves.
+export async function handleSubscribe(request: SubscribeRequest, server: Server) {
+    const { uri } = request.params;
+    const ref = parseDocumentUri(uri);
+    if (uri !== instructionsResource.uri && !(ref && await ragBackend.getDocument?.(ref))) {
+        throw resourceNotFoundError(uri);
+    }
+    resourceSubscriptions(server).add(uri);
+    return {};
+}
+
+export async function handleGetPrompt(request: GetPromptRequest, server: Server) {
+    const definition = findPrompt(request.params.name);
+    if (!definition) {
+        throw unknownPromptError(request.params.name);
+    }
+    const args = parsePromptArguments(definition, request.params.arguments);
+    logToClient(server, {
+        level: "info",
+        data: `Getting prompt: ${request.params.name}`,
+    });
+    return definition.render(args);
+}
+
+// Lists the instructions followed by the documents of the RAG backend, in pages of RESOURCES_PAGE_SIZE.
+export async function handleListResources(request: ListResourcesRequest) {
+    const cursor = request.params?.cursor;
+    const offset = cursor === undefined ? 0 : Number(cursor);
+    if (!Number.isInteger(offset) || offset < 0) {
+        throw invalidCursorError(cursor!);
+    }
+    const documents: Resource[] = (await ragBackend.listDocuments?.() ?? []).map(document => ({
+        uri: documentUri(document),
+        name: document.path,
+        title: document.title,
+        mimeType: document.mimeType,
+        description: document.collection === 'docs' ? `${document.group} documentation` : `${document.group} code sample`,
+    }));
+    const resources = [instructionsResource, ...documents];
+    const end = offset + RESOURCES_PAGE_SIZE;
+    return {
+        resources: resources.slice(offset, end),
+        ...(end < resources.length && { nextCursor: String(end) }),
+    };
+}
+
+// Documents are only readable through the templates when the backend serves them.
+export async function handleListResourceTemplates() {
+    return { resourceTemplates: ragBackend.getDocument ? RESOURCE_TEMPLATES : [] };
+}
+
 export async function handleReadResource(request: ReadResourceRequest, server: Server) {
+    const ref = parseDocumentUri(request.params.uri);
+    if (ref) {
+        logToClient(server, {
+            level: "info",
+            data: `Accessing resource: ${request.params.uri}`,
+        });
+        const document = await ragBackend.getDocument?.(ref);
+        if (!document) {
+            throw resourceNotFoundError(request.params.uri);
+        }
+        return {
+            contents: [{
+                uri: request.params.uri,
+                mimeType: document.mimeType,
+                text: document.text,
+            }]
+        };
+    }
+
     if (request.params.uri === instructionsResource.uri) {
-        server.sendLoggingMessage({
+        logToClient(server, {
             level: "info",
             data: `Accessing resource: ${request.params.uri}`,
         });
         const instructions = await getUsageInstructions(server);
-        if (instructions) {
-            return {
-                contents: [{
-                    uri: instructionsResource.uri,
-                    text: instructions.join('\n\n'),
-                }]
-            };
-        } else {
-            return {
-                contents: [{ uri: instructionsResource.uri, text: "Could not retrieve instructions." }]
-            };
-        }
+        return {
+            contents: [{
+                uri: instructionsResource.uri,
+                text: instructions.join('\n\n'),
+            }]
+        };
     }
+    throw resourceNotFoundError(request.params.uri);
+}
+
+type ResourceLinkContent = {
+    type: 'resource_link';
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    annotations?: { audience?: ('user' | 'assistant')[]; lastModified?: string };
+};
+
+// Tool results of this server: text content, followed by links to the cited sources, flagged
+// with `isError` for failed calls, and for tools with an `outputSchema` the same result as `structuredContent`.
+export type TextToolResult = {
+    content: [{ type: 'text'; text: string; annotations?: { audience?: ('user' | 'assistant')[] } }, ...ResourceLinkContent[]];
+    structuredContent?: Record<string, unknown>;
+    isError?: boolean;
+};
+
+// A link the user can follow to the page a docs result was retrieved from.
+function toResourceLink(citation: Citation): ResourceLinkContent {
     return {
-        contents: [{ uri: instructionsResource.uri, text: "Invalid Resource URI" }]
+        type: 'resource_link',
+        uri: citation.url,
+        name: citation.title ?? citation.url,
+        title: citation.title,
+        description: citation.product,
+        annotations: {
+            audience: ['user', 'assistant'],
+            lastModified: citation.lastUpdated,
+        },
     };
 }
 
-export async function handleCallTool(request: CallToolRequest, server: Server) {
-    if (request.params.name === "retrieve-instructions") {
-        server.sendLoggingMessage({
+export async function handleCallTool(request: CallToolRequest, server: Server, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<TextToolResult> {
+    const definition = findTool(request.params.name);
+    if (!definition) {
+        logToClient(server, {
             level: "info",
-            data: `Calling tool: ${request.params.name}`,
+            data: `Tool not found: ${request.params.name}`,
         });
-        const instructions = await getUsageInstructions(server);
-        if (instructions) {
-            return {
-                content: [{
-                    type: 'text',
-                    text: instructions.join('\n\n'),
-                }]
-            };
-        } else {
-            return {
-                content: [{ type: 'text', text: "Could not retrieve instructions." }]
-            };
+        throw unknownToolError(request.params.name);
+    }
+    // Rejected before the rate limiter so malformed calls do not use up quota.
+    const args = parseToolArguments(definition, request.params.arguments);
+
+    try {
+        return await callTool(request.params.name, args, server, extra, progressReporter(request, extra));
+    } catch (error) {
+        // Protocol errors, such as an invalid cursor, are not tool failures.
+        if (error instanceof McpError) {
+            throw error;
         }
+        // The SDK drops the response to a cancelled request, so this is only logged.
+        const toolError = extra?.signal.aborted ? new ToolError('cancelled', 'The tool call was cancelled') : classifyBackendError(error);
+        logToClient(server, {
+            level: "error",
+            data: `Error executing tool ${request.params.name}: ${toolError.code}: ${toolError.message}`,
+        });
+        return toolError.toResult();
     }
+}
 
-    if (request.params.name == "retrieve-google-maps-platform-docs") {
-        try {
-            let prompt: string = request.params.arguments?.prompt as string;
-            let searchContext: string[] = request.params.arguments?.search_context as string[];
+// Stages of a docs search reported to clients that asked for progress.
+// Each stage is reported as it starts; the last one is reported with the result, as progress equal to total.
+const RETRIEVE_DOCS_STAGES = ['Querying the documentation', 'Ranking results', 'Formatting the response', 'Done'] as const;
 
-            // Merge searchContext with DEFAULT_CONTEXTS and remove duplicates
-            const mergedContexts = new Set([...DEFAULT_CONTEXTS, ...(searchContext || [])]);
-            const contexts = Array.from(mergedContexts);
+type ProgressReporter = (stage: typeof RETRIEVE_DOCS_STAGES[number]) => void;
 
-            // Log user request for debugging purposes
-            server.sendLoggingMessage({
-                level: "info",
-                data: `Calling tool: ${request.params.name} with prompt: '${prompt}', search_context: ${JSON.stringify(contexts)}`,
-            });
+// Sends `notifications/progress` for the call's `_meta.progressToken`; a no-op if the client sent none.
+function progressReporter(request: CallToolRequest, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): ProgressReporter {
+    const progressToken = request.params._meta?.progressToken;
+    return stage => {
+        if (progressToken === undefined || !extra) {
+            return;
+        }
+        extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress: RETRIEVE_DOCS_STAGES.indexOf(stage), total: RETRIEVE_DOCS_STAGES.length - 1, message: stage },
+        }).catch(ignoreDisconnected);
+    };
+}
 
-            try {
-                // Call the RAG service:
-                const ragResponse = await axios.post(ragEndpoint.concat("/chat"), {
-                    message: prompt,
-                    contexts: contexts
-                });
+/**
+ * Sends each streamed context that matches the search filters to the client
+ * as an `info` log message on the call's stream, before the tool returns.
+ * These partial results are neither ranked nor deduplicated; the tool result
+ * is authoritative.
+ */
+function partialResultRelay(tool: string, filters: SearchFilters, server: Server, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): (raw: unknown) => void {
+    let index = 0;
+    return raw => {
+        const context = toDocContext(raw);
+        if (!extra || !matchesFilters(context, filters) || !isLogged('info', config.logLevel, clientLogLevel(server))) {
+            return;
+        }
+        extra.sendNotification({
+            method: 'notifications/message',
+            params: { level: 'info', logger: tool, data: redact({ partialResult: { index: index++, context } }) },
+        }).catch(ignoreDisconnected);
+    };
+}
 
-                let mcpResponse = {
-                    "response": {
-                        "contexts": ragResponse.data.contexts
-                    },
-                    "status": ragResponse.status.toString(),
-                };
-
-                // Log response for locally
-                server.sendLoggingMessage({
-                    level: "debug",
-                    data: ragResponse.data
-                });
+function rateLimitKeys(sessionId?: string, identity?: CallerIdentity): RateLimitKeys {
+    return { sessionId, identity: identity && `${identity.type}:${identity.subject}` };
+}
 
-                return {
-                    content: [{
-                        type: 'text',
-                        text: JSON.stringify(mcpResponse),
-                        annotations: { // Technical details for assistant
-                            audience: ["assistant"]
-                        },
-                    }]
-                };
-
-            } catch (error) {
-                server.sendLoggingMessage({
-                    level: "error",
-                    data: `Error executing tool ${request.params.name}: ${error}`,
-                });
-                return {
-                    content: [{ type: 'text', text: JSON.stringify("No information available") }]
-                };
-            }
+async function callTool(name: string, args: Record<string, unknown>, server: Server, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>, reportProgress: ProgressReporter = () => {}): Promise<TextToolResult> {
+    const decision = rateLimiter.consume(rateLimitKeys(extra?.sessionId, getCallerIdentity(extra?.authInfo)));
+    if (!decision.allowed) {
+        const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+        throw new ToolError('rate_limited', `Too many requests for this ${decision.scope}. Retry after ${retryAfterSeconds} seconds.`, {
+            scope: decision.scope,
+            retryAfterSeconds,
+            remaining: decision.remaining,
+        });
+    }
 
-        } catch (error) {
-            server.sendLoggingMessage({
-                level: "error",
-                data: `Error executing tool ${request.params.name}: ${error}`,
-            });
-            return {
-                content: [{ type: 'text', text: JSON.stringify(error) }]
-            };
-        }
+    if (name === RetrieveInstructions.tool.name) {
+        logToClient(server, {
+            level: "info",
+            data: `Calling tool: ${name}`,
+        });
+        const instructions = await getUsageInstructions(server);
+        return {
+            content: [{
+                type: 'text',
+                text: instructions.join('\n\n'),
+            }]
+        };
     }
 
-    server.sendLoggingMessage({
+    const {
+        prompt,
+        search_context: searchContext,
+        max_results: maxResults,
+        cursor,
+        source_types: sourceTypes,
+        platform,
+        max_response_chars: maxResponseChars = config.maxResponseChars,
+        no_cache: noCache,
+    } = args as RetrieveDocsArguments;
+
+    // Merge searchContext with the configured default contexts and remove duplicates
+    const mergedContexts = new Set([...config.defaultContexts, ...(searchContext || [])]);
+    const contexts = Array.from(mergedContexts);
+
+    const filters = { sourceTypes, platform };
+    const fingerprint = searchFingerprint(prompt, contexts, filters);
+    const offset = cursor ? decodeCursor(cursor, fingerprint) : 0;
+
+    // Log user request for debugging purposes, unless prompts must not be logged
+    const loggedSearch = config.logging.logPrompts ? ` with prompt: '${prompt}', search_context: ${JSON.stringify(contexts)}` : '';
+    logToClient(server, {
         level: "info",
-        data: `Tool not found: ${request.params.name}`,
+        data: `Calling tool: ${name}${loggedSearch}`,
     });
 
+    const cacheKey = resultCacheKey(prompt, contexts, filters);
+    const search = async (backendMaxResults: number | undefined, relay: boolean): Promise<RagChatResponse> => {
+        const cached = noCache ? undefined : await resultCache.get(cacheKey, backendMaxResults);
+        logToClient(server, {
+            level: "debug",
+            data: `Result cache ${cached ? 'hit' : noCache ? 'bypassed' : 'miss'}` + (config.logging.logPrompts ? ` for prompt: '${prompt}'` : ''),
+        });
+        if (cached) {
+            return cached;
+        }
+        const response = await ragBackend.chat(prompt, contexts, {
+            maxResults: backendMaxResults,
+            sourceTypes,
+            platform,
+            signal: extra?.signal,
+            onContext: relay && config.streaming && !cursor ? partialResultRelay(name, filters, server, extra) : undefined,
+        });
+        await resultCache.set(cacheKey, response, backendMaxResults);
+        return response;
+    };
+
+    // Ask the RAG backend for one result more than the page to know whether there is a next one. Backends may
+    // ignore the filters, and duplicates are dropped, so ask for more until the page is full or the backend runs out.
+    reportProgress('Querying the documentation');
+    const wanted = maxResults && offset + maxResults + 1;
+    let backendMaxResults = wanted;
+    let ragResponse: RagChatResponse;
+    let matches: SearchResult[];
+    for (let round = 0; ; round++) {
+        ragResponse = await search(backendMaxResults, round === 0);
+
+        // Backends may ignore the filters and the result limit, so enforce them here.
+        extra?.signal.throwIfAborted();
+        if (round === 0) {
+            reportProgress('Ranking results');
+        }
+        matches = dedupeResults(rankByRelevance((ragResponse.contexts ?? [])
+            .map(raw => ({ raw, context: toDocContext(raw) }))
+            .filter(({ context }) => matchesFilters(context, filters))));
+        const exhausted = (ragResponse.contexts?.length ?? 0) < backendMaxResults!;
+        if (!wanted || matches.length >= wanted || exhausted || backendMaxResults! >= MAX_BACKEND_RESULTS) {
+            break;
+        }
+        backendMaxResults = Math.min(backendMaxResults! * 4, MAX_BACKEND_RESULTS);
+    }
+    reportProgress('Formatting the response');
+    const page = fitToBudget(matches.slice(offset, maxResults ? offset + maxResults : undefined), maxResponseChars);
+    const end = offset + page.length;
+    const nextCursor = end < matches.length ? encodeCursor(end, fingerprint) : undefined;
+    const budgetExceeded = end < Math.min(matches.length, maxResults ? offset + maxResults : Infinity) || page.some(({ context }) => context.truncated);
+    const truncated = budgetExceeded ? {
+        moreAvailable: matches.length - end,
+        maxResponseChars,
+        message: `Truncated to fit ${maxResponseChars} characters` + (nextCursor
+            ? `; ${matches.length - end} more contexts available. Call the tool again with the same arguments and nextCursor as the cursor to get them.`
+            : '.'),
+    } : undefined;
+
+    let mcpResponse = {
+        "response": {
+            "contexts": page.map(({ raw }) => raw)
+        },
+        "status": ragResponse.status.toString(),
+        ...(nextCursor && { "nextCursor": nextCursor }),
+        ...(truncated && { "truncated": truncated }),
+    };
+
+    // Log response for locally
+    logToClient(server, {
+        level: "debug",
+        data: ragResponse
+    });
+
+    const docContexts = page.map(({ context }) => context);
+    const structuredContent: RetrieveDocsOutput = {
+        contexts: docContexts,
+        citations: toCitations(docContexts),
+        status: ragResponse.status,
+        nextCursor,
+        truncated,
+    };
+    reportProgress('Done');
+
     return {
-        content: [{ type: 'text', text: "Invalid Tool called" }]
+        // Kept in its original format for clients that do not read structuredContent.
+        content: [{
+            type: 'text',
+            text: JSON.stringify(mcpResponse),
+            annotations: { // Technical details for assistant
+                audience: ["assistant"]
+            },
+        }, ...structuredContent.citations.map(toResourceLink)],
+        structuredContent,
     };
 }
 
@@ -287,13 +610,92 @@ async function runServer() {
     // for the JSON-RPC protocol expected by MCP Clients
     console.log = console.error;
 
+    const cli = parseCommandLine();
+    if (cli.command === 'help') {
+        process.stdout.write(HELP_TEXT);
+        return;
+    }
+    if (cli.command === 'version') {
+        process.stdout.write(`${SERVER_VERSION}\n`);
+        return;
+    }
+
+    setConfig(cli.config);
+    process.on('SIGHUP', reloadConfig);
+    process.on('SIGINT', shutdown);
+    if (config.docsDir) {
+        // Offline mode: retrievals are served from a local docs index instead of the hosted RAG service
+        console.log(`Using local documentation index at ${config.docsDir}`);
+    }
+
     // Stdio transport
-    const stdioTransport = new StdioServerTransport();
-    const stdioServer = getServer();
-    await stdioServer.connect(stdioTransport);
-    console.log("Google Maps Platform Code Assist Server running on stdio");
+    if (config.transport === 'stdio' || config.transport === 'both') {
+        const stdioTransport = new StdioServerTransport();
+        const stdioServer = getServer();
+        await stdioServer.connect(stdioTransport);
+        console.log("Google Maps Platform Code Assist Server running on stdio");
+    }
+
+    if (config.transport === 'stdio') {
+        return;
+    }
 
     // HTTP transport with session management
+    const { app, sessions } = createApp();
+    httpSessions = sessions;
+
+    await startHttpServer(app, config.port, config.host);
+}
+
+// Re-reads the configuration file and environment. The transport, HTTP listener and session settings only change on restart.
+function reloadConfig() {
+    let cli;
+    try {
+        cli = parseCommandLine();
+    } catch (error) {
+        console.error(`Keeping the current configuration: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+    if (cli.command === 'serve') {
+        setConfig(cli.config);
+        console.log('Configuration reloaded');
+    }
+}
+
+// Graceful shutdown
+async function shutdown() {
+    console.log('Shutting down server...');
+    await httpSessions?.closeAll();
+    console.log('Server shutdown complete');
+    process.exit(0);
+}
+
+export interface CreateAppOptions {
+    // Origins accepted on /mcp in production; defaults to the configured `allowedOrigins`.
+    allowedOrigins?: string[];
+    // Registry to track sessions in; a new one with the configured session limits is created when omitted.
+    sessions?: SessionRegistry;
+    // Factory for the MCP server backing each new session; defaults to `getServer`.
+    createServer?: () => Server;
+    // API keys and Google ID token settings for /mcp; defaults to the configured `auth`.
+    auth?: AuthConfig;
+    // Store for replaying SSE events after a reconnect, shared by all sessions; defaults to the configured `events` store.
+    eventStore?: EventStore;
+}
+
+/**
+ * Builds the Express app serving the Streamable HTTP transport on `/mcp` and
+ * the `/health` endpoint. The app can be started with `startHttpServer` or
+ * mounted inside another Express app.
+ */
+export function createApp(options: CreateAppOptions = {}): { app: express.Express; sessions: SessionRegistry } {
+    const allowedOrigins = options.allowedOrigins ?? config.allowedOrigins;
+    const sessions = options.sessions ?? new SessionRegistry(config.sessions, { store: createSessionStore(config.sessions) });
+    sessions.startSweeper();
+    const createServer = options.createServer ?? getServer;
+    const auth = options.auth ?? config.auth;
+    const eventStore = options.eventStore ?? createEventStore(config.events);
+
     const app = express();
     app.use(express.json());
     app.use(cors({
@@ -301,8 +703,38 @@ async function runServer() {
         exposedHeaders: ['Mcp-Session-Id']
     }));
 
+    // OAuth 2.0 Protected Resource Metadata (RFC 9728), served both at the
+    // well-known root and suffixed with the resource path.
+    if (auth.oauth) {
+        const metadata = protectedResourceMetadata(auth.oauth);
+        app.get([RESOURCE_METADATA_PATH, `${RESOURCE_METADATA_PATH}/*`], (req: Request, res: Response) => {
+            res.json(metadata);
+        });
+    }
+
+    const connectTransport = async (server: Server, sessionId: string, onsessioninitialized?: (sessionId: string) => Promise<void>) => {
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => sessionId,
+            onsessioninitialized,
+            eventStore: sessionEventStore(eventStore, sessionId),
+            // Sent on DELETE: the session is over on every instance.
+            onsessionclosed: (closedSessionId) => sessions.terminate(closedSessionId),
+        });
+
+        transport.onclose = () => {
+            const sid = transport.sessionId;
+            if (sid && sessions.has(sid)) {
+                sessions.delete(sid);
+                console.log(`Transport closed for session ${sid}`);
+            }
+        };
+
+        await server.connect(transport);
+        return transport;
+    };
+
     app.all('/mcp', async (req: Request, res: Response) => {
-        if (!validateOriginHeader(req)) {
+        if (!validateOriginHeader(req, allowedOrigins)) {
             return res.status(403).json({
                 jsonrpc: '2.0',
                 error: { code: -32000, message: 'Forbidden: Invalid or missing Origin header', data: { code: 'INVALID_ORIGIN' } },
@@ -318,30 +750,71 @@ async function runServer() {
             });
         }
 
+        const authResult = await authenticateRequest(req, auth);
+        if (!authResult.ok) {
+            res.setHeader('WWW-Authenticate', bearerChallenge(auth.oauth, { error: authResult.error, description: authResult.error && authResult.message }));
+            return res.status(401).json({
+                jsonrpc: '2.0',
+                error: { code: -32000, message: authResult.message, data: { code: 'UNAUTHORIZED' } },
+                id: null,
+            });
+        }
+
+        // OAuth tokens must carry the scopes of every tool the request calls.
+        if (auth.oauth && getCallerIdentity(authResult.authInfo)?.type === 'oauth') {
+            const requiredScopes = requiredScopesFor(req.body, auth.oauth);
+            const missingScopes = requiredScopes.filter(scope => !authResult.authInfo!.scopes.includes(scope));
+            if (missingScopes.length > 0) {
+                res.setHeader('WWW-Authenticate', bearerChallenge(auth.oauth, { error: 'insufficient_scope', scope: requiredScopes }));
+                return res.status(403).json({
+                    jsonrpc: '2.0',
+                    error: { code: -32000, message: `Forbidden: Missing required scopes: ${missingScopes.join(' ')}`, data: { code: 'INSUFFICIENT_SCOPE', requiredScopes } },
+                    id: null,
+                });
+            }
+        }
+        // The transport passes `req.auth` to request handlers as `extra.authInfo`.
+        (req as Request & { auth?: AuthInfo }).auth = authResult.authInfo;
+        const identity = getCallerIdentity(authResult.authInfo);
+
         const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        const session = sessionId ? sessions.get(sessionId) ?? await sessions.restore(sessionId) : undefined;
         let transport: StreamableHTTPServerTransport;
 
-        if (sessionId && transports.has(sessionId)) {
-            transport = transports.get(sessionId)!;
-        } else if (!sessionId && isInitializeRequest(req.body)) {
-            transport = new StreamableHTTPServerTransport({
-                sessionIdGenerator: () => randomUUID(),
-                onsessioninitialized: (newSessionId) => {
-                    transports.set(newSessionId, transport);
-                    console.log(`StreamableHTTP session initialized: ${newSessionId}`);
-                }
-            });
-
-            transport.onclose = () => {
-                const sid = transport.sessionId;
-                if (sid && transports.has(sid)) {
-                    transports.delete(sid);
-                    console.log(`Transport closed for session ${sid}`);
+        if (sessionId && session) {
+            if (!isSameCaller(session.identity, identity)) {
+                return res.status(403).json({
+                    jsonrpc: '2.0',
+                    error: { code: -32000, message: 'Forbidden: Session belongs to a different caller', data: { code: 'SESSION_FORBIDDEN' } },
+                    id: null,
+                });
+            }
+            if (sessions.has(sessionId)) {
+                sessions.touch(sessionId);
+                transport = sessions.get(sessionId)!.transport;
+            } else {
+                // Created by another instance (or before a restart): rebuild it here.
+                const server = createServer();
+                transport = await connectTransport(server, sessionId);
+                try {
+                    resumeSession(transport, server, session);
+                } catch (error) {
+                    console.error(`Error resuming StreamableHTTP session ${sessionId}:`, error);
+                    await transport.close();
+                    return res.status(500).json({
+                        jsonrpc: '2.0',
+                        error: { code: -32603, message: 'Internal server error: the session could not be resumed', data: { code: 'SESSION_RESUME_FAILED' } },
+                        id: null,
+                    });
                 }
-            };
-
-            const server = getServer();
-            await server.connect(transport);
+                await sessions.add(sessionId, transport, server, identity, session);
+                console.log(`StreamableHTTP session resumed: ${sessionId}`);
+            }
+        } else if (!sessionId && isInitializeRequest(req.body)) {
+            const server = createServer();
+            transport = await connectTransport(server, randomUUID(), (newSessionId) => sessions.add(newSessionId, transport, server, identity).then(() => {
+                console.log(`StreamableHTTP session initialized: ${newSessionId}`);
+            }));
         } else {
             const errorData = sessionId ? { code: 'SESSION_NOT_FOUND', message: 'Not Found: Invalid session ID' } : { code: 'BAD_REQUEST', message: 'Bad Request: No valid session ID provided for non-init request' };
             const statusCode = sessionId ? 404 : 400;
@@ -354,6 +827,10 @@ async function runServer() {
 
         try {
             await transport.handleRequest(req, res, req.body);
+            if (transport.sessionId && (!sessionId || changesSessionState(req.body))) {
+                // Store the client info and capabilities negotiated by initialize, and later subscriptions and log levels.
+                await sessions.persist(transport.sessionId);
+            }
         } catch (error) {
             console.error(`Error handling MCP ${req.method} request:`, error);
             if (!res.headersSent) {
@@ -367,35 +844,38 @@ async function runServer() {
     });
 
     // Health check endpoint
-    app.get('/health', (req: Request, res: Response) => {
+    // The session whose quota /health may report: one named by the request that /mcp would let it use.
+    const authorizedSession = async (req: Request) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+        if (!session) {
+            return undefined;
+        }
+        const authResult = await authenticateRequest(req, auth);
+        return authResult.ok && isSameCaller(session.identity, getCallerIdentity(authResult.authInfo)) ? session : undefined;
+    };
+
+    app.get('/health', async (req: Request, res: Response) => {
+        const session = await authorizedSession(req);
         res.json({
             status: 'healthy',
-            activeSessions: Object.keys(transports).length,
+            activeSessions: sessions.size,
+            evictedSessions: sessions.evictions(),
+            rateLimits: rateLimiter.status(session && rateLimitKeys(session.id, session.identity)),
+            ragBackend: ragBackend.status?.(),
+            resultCache: resultCache.stats(),
+            instructions: instructionsCache.source(),
             timestamp: new Date().toISOString()
         });
     });
 
-    const portIndex = process.argv.indexOf('--port');
-    let port = 3000;
-
-    if (portIndex > -1 && process.argv.length > portIndex + 1) {
-        const parsedPort = parseInt(process.argv[portIndex + 1], 10);
-        if (!isNaN(parsedPort)) {
-            port = parsedPort;
-        }
-    } else if (process.env.PORT) {
-        const envPort = parseInt(process.env.PORT, 10);
-        if (!isNaN(envPort)) {
-            port = envPort;
-        }
-    }
-
-    await startHttpServer(app, port);
+    return { app, sessions };
 }
 
-export const startHttpServer = (app: express.Express, p: number): Promise<http.Server> => {
+export const startHttpServer = (app: express.Express, p: number, host?: string): Promise<http.Server> => {
+    const listen = (port: number) => host ? app.listen(port, host) : app.listen(port);
     return new Promise((resolve, reject) => {
-        const server = app.listen(p)
+        const server = listen(p)
             .on('listening', () => {
                 const address = server.address();
                 const listeningPort = (address && typeof address === 'object') ? address.port : p;
@@ -405,7 +885,7 @@ export const startHttpServer = (app: express.Express, p: number): Promise<http.S
             .on('error', (error: any) => {
                 if (error.code === 'EADDRINUSE') {
                     console.log(`Port ${p} is in use, trying a random available port...`);
-                    const newServer = app.listen(0)
+                    const newServer = listen(0)
                         .on('listening', () => {
                             const address = newServer.address();
                             const listeningPort = (address && typeof address === 'object') ? address.port : 0;
@@ -430,23 +910,23 @@ export const startHttpServer = (app: express.Express, p: number): Promise<http.S
     });
 };
 
-// Graceful shutdown
-process.on('SIGINT', async () => {
-    console.log('Shutting down server...');
-    for (const transport of transports.values()) {
-        try {
-            await transport.close();
-        } catch (error) {
-            console.error(`Error closing transport for session ${transport.sessionId}:`, error);
-        }
+// The published CommonJS bundle can also be require()d to embed `createApp`;
+// only start the CLI server when it is the process entry point.
+function loadedAsLibrary(): boolean {
+    try {
+        return require.main !== module;
+    } catch {
+        // Not running as CommonJS (e.g. ESM during development): treat as the entry point.
+        return false;
     }
-    transports.clear();
-    console.log('Server shutdown complete');
-    process.exit(0);
-});
+}
 
-if (process.env.NODE_ENV !== 'test') {
+if (process.env.NODE_ENV !== 'test' && !loadedAsLibrary()) {
     runServer().catch((error) => {
+        if (error instanceof ConfigError) {
+            console.error(error.message);
+            process.exit(1);
+        }
         console.error("Fatal error running server:", error);
         process.exit(1);
     });
@@ -0,0 +1,151 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Config } from './config.js';
+import { RagBackend, RagInstructions } from './rag.js';
+
+export type InstructionsCacheOptions = Config['instructions'];
+
+// How long to wait before asking the backend again after a failed fetch.
+const FAILURE_RETRY_MS = 60 * 1000;
+
+/**
+ * Copy of the usage instructions shipped with the package, served when the
+ * RAG service cannot be reached and nothing has been fetched yet.
+ */
+export const BUNDLED_INSTRUCTIONS: RagInstructions = {
+    systemInstructions: [
+        'You are assisting a developer who builds with Google Maps Platform.',
+        'Before answering a question about Google Maps Platform APIs, SDKs, pricing or terms, call the retrieve-google-maps-platform-docs tool with a detailed prompt that keeps every detail the user gave (product, platform, location, error messages) and ground your answer in the returned contexts.',
+        'Prefer current products and features over legacy ones (for example Places API (New) and Advanced Markers), never hard-code API keys in code you write, and cite the documentation pages you used.',
+    ].join(' '),
+    preamble: 'These instructions are a bundled copy because the Google Maps Platform documentation service could not be reached. Searches may still fail; if they do, say that your answer is not grounded in the current documentation.',
+    europeanEconomicAreaTermsDisclaimer: 'If your billing address is in the European Economic Area, the Google Maps Platform EEA Terms of Service (https://cloud.google.com/terms/maps-platform/eea) apply to your use of the Services.',
+};
+
+export type InstructionsSource = 'backend' | 'bundled';
+
+interface Entry {
+    instructions: RagInstructions;
+    source: InstructionsSource;
+    fetchedAt: number;
+}
+
+function sameInstructions(a: RagInstructions, b: RagInstructions): boolean {
+    return a.systemInstructions === b.systemInstructions
+        && a.preamble === b.preamble
+        && a.europeanEconomicAreaTermsDisclaimer === b.europeanEconomicAreaTermsDisclaimer;
+}
+
+/**
+ * Caches the backend's usage instructions for `ttlMs`. For a further
+ * `staleWhileRevalidateMs` the cached copy is still served while it is
+ * refreshed in the background, and it is served for as long as refreshing
+ * fails. After a failed refresh, callers get the cached copy without waiting
+ * for the backend until FAILURE_RETRY_MS has passed. Refreshes send the ETag
+ * of the cached copy, so an unchanged copy is not transferred again.
+ * Listeners are told whenever the instructions change.
+ */
+export class InstructionsCache {
+    private entry: Entry | undefined;
+    private refreshing: Promise<void> | undefined;
+    private failedAt = -Infinity;
+    private lastError: unknown;
+    private readonly listeners: ((instructions: RagInstructions) => void)[] = [];
+
+    constructor(
+        private readonly backend: RagBackend,
+        private readonly options: InstructionsCacheOptions,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    async get(): Promise<RagInstructions> {
+        if (!this.entry || this.entry.source === 'bundled') {
+            if (this.now() - this.failedAt >= FAILURE_RETRY_MS) {
+                await this.refresh();
+            }
+            return this.entry?.instructions ?? BUNDLED_INSTRUCTIONS;
+        }
+        const age = this.now() - this.entry.fetchedAt;
+        if (age >= this.options.ttlMs + this.options.staleWhileRevalidateMs) {
+            if (this.now() - this.failedAt >= FAILURE_RETRY_MS) {
+                await this.refresh();
+            }
+        } else if (age >= this.options.ttlMs) {
+            void this.refresh();
+        }
+        return this.entry.instructions;
+    }
+
+    // Where the instructions `get` returns come from.
+    source(): InstructionsSource {
+        return this.entry?.source ?? 'bundled';
+    }
+
+    // The error of the last failed fetch, if the bundled copy is being served.
+    error(): unknown {
+        return this.source() === 'bundled' ? this.lastError : undefined;
+    }
+
+    // Replaces the cached instructions, e.g. with a copy loaded at startup.
+    set(instructions: RagInstructions) {
+        this.update(instructions, 'backend');
+    }
+
+    onUpdate(listener: (instructions: RagInstructions) => void) {
+        this.listeners.push(listener);
+    }
+
+    // Fetches the instructions unless a fetch is already running; never rejects.
+    refresh(): Promise<void> {
+        this.refreshing ??= this.fetch().finally(() => {
+            this.refreshing = undefined;
+        });
+        return this.refreshing;
+    }
+
+    private async fetch() {
+        const cached = this.entry?.source === 'backend' ? this.entry : undefined;
+        try {
+            if (cached?.instructions.etag && this.backend.revalidateInstructions) {
+                const changed = await this.backend.revalidateInstructions(cached.instructions.etag);
+                if (!changed) {
+                    cached.fetchedAt = this.now();
+                    return;
+                }
+                this.update(changed, 'backend');
+            } else {
+                this.update(await this.backend.instructions(), 'backend');
+            }
+        } catch (error) {
+            this.failedAt = this.now();
+            this.lastError = error;
+            if (!this.entry) {
+                this.update(BUNDLED_INSTRUCTIONS, 'bundled');
+            }
+        }
+    }
+
+    private update(instructions: RagInstructions, source: InstructionsSource) {
+        const previous = this.entry;
+        this.entry = { instructions, source, fetchedAt: this.now() };
+        if (previous && !sameInstructions(previous.instructions, instructions)) {
+            for (const listener of this.listeners) {
+                listener(instructions);
+            }
+        }
+    }
+}
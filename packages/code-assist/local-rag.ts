@@ -0,0 +1,347 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Document, DocumentInfo, DocumentRef, documentUri } from './documents.js';
+import { RagBackend, RagChatOptions, RagChatResponse, RagInstructions } from './rag.js';
+
+const DOC_EXTENSIONS = new Set(['.md', '.markdown', '.mdx', '.html', '.htm']);
+
+// Code sample repositories are checked out under this directory of the corpus, one per subdirectory.
+const SAMPLES_DIR = 'samples';
+
+const MIME_TYPES: Record<string, string> = {
+    '.md': 'text/markdown',
+    '.markdown': 'text/markdown',
+    '.mdx': 'text/markdown',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.js': 'text/javascript',
+    '.mjs': 'text/javascript',
+    '.ts': 'text/typescript',
+    '.json': 'application/json',
+    '.css': 'text/css',
+    '.java': 'text/x-java',
+    '.kt': 'text/x-kotlin',
+    '.swift': 'text/x-swift',
+    '.py': 'text/x-python',
+};
+
+// Sections longer than this are split further so a single hit stays readable.
+const MAX_CHUNK_CHARS = 2000;
+
+// BM25 tuning parameters (standard Okapi defaults).
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+    'i', 'in', 'is', 'it', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'with', 'you',
+]);
+
+const DEFAULT_LOCAL_INSTRUCTIONS: RagInstructions = {
+    systemInstructions: 'You are answering Google Maps Platform questions using a local, offline documentation index. Call the retrieve-google-maps-platform-docs tool with a detailed prompt and ground your answer in the returned contexts.',
+    preamble: 'Results come from a locally indexed copy of the documentation and may be older than the live Google Maps Platform documentation.',
+    europeanEconomicAreaTermsDisclaimer: 'If your billing address is in the European Economic Area, the Google Maps Platform EEA Terms of Service (https://cloud.google.com/terms/maps-platform/eea) apply to your use of the Services.',
+};
+
+interface Chunk {
+    source: string;
+    title: string;
+    text: string;
+    termFrequencies: Map<string, number>;
+    length: number;
+}
+
+export interface LocalRagBackendOptions {
+    maxResults?: number;
+}
+
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+// Reduces an HTML page to Markdown-like text, keeping headings as section
+// boundaries so both formats go through the same chunker.
+function htmlToText(html: string): { title?: string; text: string } {
+    const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    const text = html
+        .replace(/<(script|style|nav|header|footer)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, heading) => `\n${'#'.repeat(Number(level))} ${heading}\n`)
+        .replace(/<(br|\/p|\/div|\/li|\/pre|\/tr)[^>]*>/gi, '\n')
+        .replace(/<[^>]+>/g, '');
+    return {
+        title: titleMatch ? decodeEntities(titleMatch[1]).trim() : undefined,
+        text: decodeEntities(text),
+    };
+}
+
+function splitSections(text: string): { heading?: string; body: string }[] {
+    const sections: { heading?: string; body: string }[] = [];
+    let current: { heading?: string; lines: string[] } = { lines: [] };
+
+    for (const line of text.split('\n')) {
+        const heading = line.match(/^#{1,6}\s+(.*)$/);
+        if (heading) {
+            sections.push({ heading: current.heading, body: current.lines.join('\n') });
+            current = { heading: heading[1].trim(), lines: [] };
+        } else {
+            current.lines.push(line);
+        }
+    }
+    sections.push({ heading: current.heading, body: current.lines.join('\n') });
+
+    return sections
+        .map(section => ({ heading: section.heading, body: section.body.replace(/\n{3,}/g, '\n\n').trim() }))
+        .filter(section => section.body.length > 0);
+}
+
+function splitLongText(text: string): string[] {
+    if (text.length <= MAX_CHUNK_CHARS) return [text];
+
+    const pieces: string[] = [];
+    let current = '';
+    for (const paragraph of text.split(/\n\n+/)) {
+        if (current && current.length + paragraph.length > MAX_CHUNK_CHARS) {
+            pieces.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) pieces.push(current);
+    return pieces;
+}
+
+function isDocument(file: string): boolean {
+    return DOC_EXTENSIONS.has(path.extname(file).toLowerCase());
+}
+
+// Hidden entries (such as `.git` in a sample checkout) and dependencies are never part of the corpus.
+function isExcluded(name: string): boolean {
+    return name.startsWith('.') || name === 'node_modules';
+}
+
+async function findFiles(dir: string, include: (file: string) => boolean): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+        if (isExcluded(entry.name)) continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await findFiles(fullPath, include));
+        } else if (include(entry.name)) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Maps a file of the corpus to the resource it is served as:
+ * `<product>/<path>` is a documentation page and `samples/<repo>/<file>` a
+ * sample file. Files at the root of the corpus belong to no product and are
+ * only searchable.
+ */
+function documentRef(source: string): DocumentRef | undefined {
+    const segments = source.split('/');
+    if (segments[0] === SAMPLES_DIR) {
+        return segments.length > 2 ? { collection: 'samples', group: segments[1], path: segments.slice(2).join('/') } : undefined;
+    }
+    return segments.length > 1 ? { collection: 'docs', group: segments[0], path: segments.slice(1).join('/') } : undefined;
+}
+
+/**
+ * Offline RAG backend that ranks sections of a local Markdown/HTML corpus
+ * with BM25. The index is built lazily on the first query.
+ *
+ * An optional `instructions.json` at the root of the docs directory
+ * overrides the built-in usage instructions.
+ */
+export class LocalRagBackend implements RagBackend {
+    private chunks: Chunk[] | null = null;
+    // Title of each indexed document, by source.
+    private titles = new Map<string, string>();
+    private documentFrequencies = new Map<string, number>();
+    private averageLength = 0;
+    private readonly maxResults: number;
+
+    constructor(private readonly docsDir: string, options: LocalRagBackendOptions = {}) {
+        this.maxResults = options.maxResults ?? 10;
+    }
+
+    // Source type and platform filters are left to the docs tool, which classifies the returned contexts.
+    async chat(message: string, contexts: string[], options: RagChatOptions = {}): Promise<RagChatResponse> {
+        const chunks = await this.load();
+        const queryTerms = Array.from(new Set(tokenize([message, ...contexts].join(' '))));
+
+        const scored = chunks
+            .map(chunk => ({ chunk, score: this.score(chunk, queryTerms) }))
+            .filter(result => result.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, options.maxResults ?? this.maxResults);
+
+        const results = {
+            status: 200,
+            contexts: scored.map(({ chunk, score }) => {
+                const ref = documentRef(chunk.source);
+                return {
+                    text: chunk.text,
+                    title: chunk.title,
+                    source: chunk.source,
+                    // The full page, readable as a resource.
+                    uri: ref && documentUri(ref),
+                    source_type: ref?.collection === 'samples' ? 'samples' : 'docs',
+                    score: Number(score.toFixed(4)),
+                };
+            }),
+        };
+        // The index answers at once, so "streaming" hands over the contexts in rank order.
+        results.contexts.forEach(context => options.onContext?.(context));
+        return results;
+    }
+
+    async instructions(): Promise<RagInstructions> {
+        try {
+            const raw = await fs.readFile(path.join(this.docsDir, 'instructions.json'), 'utf8');
+            return { ...DEFAULT_LOCAL_INSTRUCTIONS, ...JSON.parse(raw) };
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return DEFAULT_LOCAL_INSTRUCTIONS;
+            }
+            throw error;
+        }
+    }
+
+    async listDocuments(): Promise<DocumentInfo[]> {
+        await this.load();
+        const documents: DocumentInfo[] = [];
+        for (const [source, title] of this.titles) {
+            const ref = documentRef(source);
+            if (ref?.collection === 'docs') {
+                documents.push({ ...ref, title, mimeType: MIME_TYPES[path.extname(source).toLowerCase()] });
+            }
+        }
+        const samplesDir = path.join(this.docsDir, SAMPLES_DIR);
+        const samples = await findFiles(samplesDir, () => true).catch((error: any) => {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        });
+        for (const file of samples) {
+            const ref = documentRef(path.relative(this.docsDir, file).split(path.sep).join('/'));
+            if (ref) {
+                documents.push({ ...ref, mimeType: MIME_TYPES[path.extname(file).toLowerCase()] ?? 'text/plain' });
+            }
+        }
+        return documents;
+    }
+
+    async getDocument(ref: DocumentRef): Promise<Document | undefined> {
+        const source = ref.collection === 'samples' ? `${SAMPLES_DIR}/${ref.group}/${ref.path}` : `${ref.group}/${ref.path}`;
+        const file = path.resolve(this.docsDir, ...source.split('/'));
+        // Only files that listDocuments would list are served, never anything else under the docs directory.
+        if (!file.startsWith(path.resolve(this.docsDir) + path.sep) || source.split('/').some(isExcluded)
+            || documentRef(source)?.collection !== ref.collection || (ref.collection === 'docs' && !isDocument(file))) {
+            return undefined;
+        }
+        let text: string;
+        try {
+            text = await fs.readFile(file, 'utf8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+                return undefined;
+            }
+            throw error;
+        }
+        if (ref.collection === 'docs') {
+            await this.load();
+        }
+        const mimeType = MIME_TYPES[path.extname(file).toLowerCase()] ?? 'text/plain';
+        return { ...ref, title: this.titles.get(source), mimeType, text };
+    }
+
+    private score(chunk: Chunk, queryTerms: string[]): number {
+        const total = this.chunks!.length;
+        let score = 0;
+        for (const term of queryTerms) {
+            const tf = chunk.termFrequencies.get(term);
+            if (!tf) continue;
+            const df = this.documentFrequencies.get(term) ?? 0;
+            const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+            score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * chunk.length / this.averageLength));
+        }
+        return score;
+    }
+
+    private async load(): Promise<Chunk[]> {
+        if (this.chunks) {
+            return this.chunks;
+        }
+
+        const chunks: Chunk[] = [];
+        this.titles.clear();
+        for (const file of await findFiles(this.docsDir, isDocument)) {
+            const raw = await fs.readFile(file, 'utf8');
+            const isHtml = /\.html?$/i.test(file);
+            const { title: htmlTitle, text } = isHtml ? htmlToText(raw) : { title: undefined, text: raw.replace(/^---\n[\s\S]*?\n---\n/, '') };
+            const sections = splitSections(text);
+            const source = path.relative(this.docsDir, file).split(path.sep).join('/');
+            const documentTitle = htmlTitle ?? sections.find(section => section.heading)?.heading ?? path.basename(file);
+            this.titles.set(source, documentTitle);
+
+            for (const section of sections) {
+                for (const piece of splitLongText(section.body)) {
+                    const body = section.heading ? `${section.heading}\n\n${piece}` : piece;
+                    const tokens = tokenize(body);
+                    const termFrequencies = new Map<string, number>();
+                    for (const token of tokens) {
+                        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+                    }
+                    chunks.push({
+                        source,
+                        title: section.heading && section.heading !== documentTitle ? `${documentTitle} - ${section.heading}` : documentTitle,
+                        text: body,
+                        termFrequencies,
+                        length: tokens.length,
+                    });
+                }
+            }
+        }
+
+        this.documentFrequencies.clear();
+        for (const chunk of chunks) {
+            for (const term of chunk.termFrequencies.keys()) {
+                this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+            }
+        }
+        this.averageLength = chunks.length ? chunks.reduce((sum, chunk) => sum + chunk.length, 0) / chunks.length : 0;
+        this.chunks = chunks;
+        return chunks;
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { LOG_LEVELS } from './config.js';
+
+export interface RedactionRule {
+    pattern: RegExp;
+    replacement: string;
+}
+
+// Always applied to log messages, before any configured patterns.
+export const BUILT_IN_REDACTION_RULES: RedactionRule[] = [
+    { pattern: /AIza[0-9A-Za-z_-]{35}/g, replacement: '[REDACTED_API_KEY]' },
+    { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, replacement: '[REDACTED_EMAIL]' },
+    // Latitude/longitude pairs with at least three decimals, so version numbers and prices are left alone.
+    { pattern: /[-+]?\d{1,2}\.\d{3,}\s*,\s*[-+]?\d{1,3}\.\d{3,}/g, replacement: '[REDACTED_COORDINATES]' },
+];
+
+export type Redactor = <T>(value: T) => T;
+
+/**
+ * Builds a function that replaces sensitive text in a log message, or in
+ * every string of a structured one. `patterns` are regular expressions from
+ * the configuration, applied after the built-in rules.
+ */
+export function createRedactor(patterns: string[] = []): Redactor {
+    const rules = [
+        ...BUILT_IN_REDACTION_RULES,
+        ...patterns.map(pattern => ({ pattern: new RegExp(pattern, 'g'), replacement: '[REDACTED]' })),
+    ];
+    const redact = (value: unknown): unknown => {
+        if (typeof value === 'string') {
+            return rules.reduce((text, rule) => text.replace(rule.pattern, rule.replacement), value);
+        }
+        if (Array.isArray(value)) {
+            return value.map(redact);
+        }
+        if (typeof value === 'object' && value !== null) {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redact(item)]));
+        }
+        return value;
+    };
+    return redact as Redactor;
+}
+
+// Levels clients chose with `logging/setLevel`, by the server of their session.
+const clientLogLevels = new WeakMap<Server, LoggingLevel>();
+
+export function clientLogLevel(server: Server): LoggingLevel | undefined {
+    return clientLogLevels.get(server);
+}
+
+export function setClientLogLevel(server: Server, level: LoggingLevel) {
+    clientLogLevels.set(server, level);
+}
+
+// Whether a message at `level` is sent: it must reach both the configured level and the client's.
+export function isLogged(level: LoggingLevel, configured: LoggingLevel, client?: LoggingLevel): boolean {
+    const severity = (value: LoggingLevel) => LOG_LEVELS.indexOf(value);
+    return severity(level) >= severity(configured) && (client === undefined || severity(level) >= severity(client));
+}
@@ -0,0 +1,194 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from 'node:crypto';
+import axios from 'axios';
+import { OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { Config } from './config.js';
+
+export type OAuthConfig = NonNullable<Config['auth']['oauth']>;
+
+export const RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+// Upper bound on how long an introspection result is reused for the same token.
+const INTROSPECTION_CACHE_MS = 60_000;
+const INTROSPECTION_CACHE_MAX_ENTRIES = 1000;
+const OAUTH_REQUEST_TIMEOUT_MS = 10_000;
+
+export interface OAuthTokenInfo {
+    subject: string;
+    clientId: string;
+    scopes: string[];
+    expiresAt?: number;
+}
+
+export class OAuthTokenError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OAuthTokenError';
+    }
+}
+
+// RFC 9728: the metadata for a resource with a path lives under the well-known
+// prefix followed by that path, e.g. /.well-known/oauth-protected-resource/mcp.
+export function resourceMetadataUrl(oauth: OAuthConfig): string {
+    const resource = new URL(oauth.resource);
+    const path = resource.pathname === '/' ? '' : resource.pathname.replace(/\/+$/, '');
+    return new URL(`${RESOURCE_METADATA_PATH}${path}`, resource.origin).href;
+}
+
+export function protectedResourceMetadata(oauth: OAuthConfig): OAuthProtectedResourceMetadata {
+    const scopes = new Set([...(oauth.scopesSupported ?? []), ...(oauth.requiredScopes ?? []), ...Object.values(oauth.toolScopes ?? {}).flat()]);
+    return {
+        resource: oauth.resource,
+        authorization_servers: oauth.authorizationServers,
+        scopes_supported: scopes.size > 0 ? Array.from(scopes) : undefined,
+        bearer_methods_supported: ['header'],
+        resource_name: 'Google Maps Platform Code Assist MCP',
+    };
+}
+
+/**
+ * Builds a `WWW-Authenticate` value. With OAuth configured, the challenge
+ * points clients at the protected resource metadata so they can discover the
+ * authorization server (MCP authorization specification).
+ */
+export function bearerChallenge(oauth: OAuthConfig | undefined, params: { error?: string; description?: string; scope?: string[] } = {}): string {
+    const parts = ['realm="code-assist-mcp"'];
+    if (oauth) parts.push(`resource_metadata="${resourceMetadataUrl(oauth)}"`);
+    if (params.error) parts.push(`error="${params.error}"`);
+    if (params.description) parts.push(`error_description="${params.description.replace(/"/g, "'")}"`);
+    if (params.scope?.length) parts.push(`scope="${params.scope.join(' ')}"`);
+    return `Bearer ${parts.join(', ')}`;
+}
+
+// Scopes a JSON-RPC body (single message or batch) needs: the global required
+// scopes plus the scopes configured for every tool it calls.
+export function requiredScopesFor(body: unknown, oauth: OAuthConfig): string[] {
+    const scopes = new Set(oauth.requiredScopes ?? []);
+    const messages = Array.isArray(body) ? body : [body];
+    for (const message of messages) {
+        if (message?.method === 'tools/call' && typeof message.params?.name === 'string') {
+            for (const scope of oauth.toolScopes?.[message.params.name] ?? []) {
+                scopes.add(scope);
+            }
+        }
+    }
+    return Array.from(scopes);
+}
+
+const introspectionEndpoints = new Map<string, Promise<string>>();
+const introspectionCache = new Map<string, { info: OAuthTokenInfo; expiresAt: number }>();
+
+// RFC 8414 discovery, falling back to OpenID Connect discovery.
+async function discoverIntrospectionEndpoint(issuer: string): Promise<string> {
+    const base = issuer.replace(/\/+$/, '');
+    for (const path of ['/.well-known/oauth-authorization-server', '/.well-known/openid-configuration']) {
+        try {
+            const response = await axios.get(base.concat(path), { timeout: OAUTH_REQUEST_TIMEOUT_MS });
+            if (response.data?.introspection_endpoint) {
+                return response.data.introspection_endpoint;
+            }
+        } catch {
+            // Try the next discovery document.
+        }
+    }
+    throw new OAuthTokenError(`authorization server ${issuer} does not advertise an introspection endpoint`);
+}
+
+function getIntrospectionEndpoint(oauth: OAuthConfig): Promise<string> {
+    if (oauth.introspectionEndpoint) {
+        return Promise.resolve(oauth.introspectionEndpoint);
+    }
+    const issuer = oauth.authorizationServers[0];
+    let endpoint = introspectionEndpoints.get(issuer);
+    if (!endpoint) {
+        endpoint = discoverIntrospectionEndpoint(issuer);
+        // Do not cache failed discovery so a temporarily unavailable server is retried.
+        endpoint.catch(() => introspectionEndpoints.delete(issuer));
+        introspectionEndpoints.set(issuer, endpoint);
+    }
+    return endpoint;
+}
+
+function audienceMatches(aud: unknown, resource: string): boolean {
+    const normalize = (value: string) => value.replace(/\/+$/, '');
+    const audiences = Array.isArray(aud) ? aud : [aud];
+    return audiences.some(value => typeof value === 'string' && normalize(value) === normalize(resource));
+}
+
+/**
+ * Validates an access token with the authorization server's RFC 7662
+ * introspection endpoint. The token must be active, unexpired and issued for
+ * this server (`aud` must contain the configured resource).
+ */
+export async function introspectToken(token: string, oauth: OAuthConfig): Promise<OAuthTokenInfo> {
+    const cacheKey = createHash('sha256').update(token).digest('hex');
+    const cached = introspectionCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.info;
+    }
+
+    const endpoint = await getIntrospectionEndpoint(oauth);
+    let data: any;
+    try {
+        const response = await axios.post(endpoint, new URLSearchParams({ token, token_type_hint: 'access_token' }).toString(), {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+            auth: oauth.clientId ? { username: oauth.clientId, password: oauth.clientSecret ?? '' } : undefined,
+            timeout: OAUTH_REQUEST_TIMEOUT_MS,
+        });
+        data = response.data;
+    } catch (error) {
+        throw new OAuthTokenError(`token introspection failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!data?.active) {
+        throw new OAuthTokenError('token is not active');
+    }
+    if (typeof data.exp === 'number' && data.exp * 1000 <= Date.now()) {
+        throw new OAuthTokenError('token has expired');
+    }
+    if (!audienceMatches(data.aud, oauth.resource)) {
+        throw new OAuthTokenError('token was not issued for this resource');
+    }
+    const sub = typeof data.sub === 'string' && data.sub ? data.sub : undefined;
+    const clientId = typeof data.client_id === 'string' && data.client_id ? data.client_id : undefined;
+    // Sessions and rate limits are keyed by the subject, so tokens that do not name a caller are refused.
+    if (!sub && !clientId) {
+        throw new OAuthTokenError('token has neither a subject nor a client_id');
+    }
+
+    const info: OAuthTokenInfo = {
+        // Client credentials tokens have no user; their client ID is prefixed so it cannot match a user's `sub`.
+        subject: sub ?? `client:${clientId}`,
+        clientId: (clientId ?? sub)!,
+        scopes: typeof data.scope === 'string' ? data.scope.split(' ').filter(Boolean) : [],
+        expiresAt: typeof data.exp === 'number' ? data.exp : undefined,
+    };
+
+    if (introspectionCache.size >= INTROSPECTION_CACHE_MAX_ENTRIES) {
+        introspectionCache.delete(introspectionCache.keys().next().value!);
+    }
+    const cacheUntil = Math.min(Date.now() + INTROSPECTION_CACHE_MS, info.expiresAt ? info.expiresAt * 1000 : Infinity);
+    introspectionCache.set(cacheKey, { info, expiresAt: cacheUntil });
+
+    return info;
+}
+
+export function _clearOAuthCaches() {
+    introspectionEndpoints.clear();
+    introspectionCache.clear();
+}
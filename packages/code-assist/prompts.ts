@@ -0,0 +1,174 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { invalidPromptArgumentsError } from './errors.js';
+import { MAX_SEARCH_CONTEXT_LENGTH, RetrieveDocsArguments, RetrieveGoogleMapsPlatformDocs, RetrieveInstructions } from './tools.js';
+
+// Limits for free-text prompt arguments; code to review may be longer.
+export const MAX_PROMPT_ARGUMENT_LENGTH = 2000;
+export const MAX_CODE_ARGUMENT_LENGTH = 50000;
+
+/**
+ * A prompt template whose published `arguments` are generated from the zod
+ * schema its arguments are validated with. Prompt arguments are always strings.
+ */
+export interface PromptDefinition<Args extends z.ZodObject = z.ZodObject> {
+    prompt: Prompt;
+    arguments: Args;
+    render(args: z.infer<Args>): GetPromptResult;
+}
+
+function definePrompt<Args extends z.ZodObject>(prompt: Omit<Prompt, 'arguments'>, args: Args, render: (args: z.infer<Args>) => string): PromptDefinition<Args> {
+    return {
+        prompt: {
+            ...prompt,
+            arguments: Object.entries(args.shape).map(([name, schema]) => ({
+                name,
+                description: (schema as z.ZodType).description,
+                required: !(schema as z.ZodType).safeParse(undefined).success,
+            })),
+        },
+        arguments: args,
+        render: values => ({
+            description: prompt.description,
+            messages: [{ role: 'user', content: { type: 'text', text: render(values) } }],
+        }),
+    };
+}
+
+const text = (description: string) => z.string().trim().min(1).max(MAX_PROMPT_ARGUMENT_LENGTH).describe(description);
+const optionalText = (description: string) => z.string().trim().min(1).max(MAX_PROMPT_ARGUMENT_LENGTH).optional().describe(description);
+const code = (description: string) => z.string().trim().min(1).max(MAX_CODE_ARGUMENT_LENGTH).describe(description);
+
+// The grounding steps every workflow starts with: load the instructions, then search the documentation.
+function groundingSteps(searches: RetrieveDocsArguments[]): string {
+    return [
+        `1. Call the \`${RetrieveInstructions.tool.name}\` tool and follow the instructions it returns.`,
+        `2. Call the \`${RetrieveGoogleMapsPlatformDocs.tool.name}\` tool with each of these arguments, adding details from our conversation to the prompt:`,
+        ...searches.map(search => `   - \`${JSON.stringify(search)}\``),
+        '3. Base your answer only on the returned documentation and cite the pages you used. If something is not covered, search again with a more specific prompt rather than guessing.',
+    ].join('\n');
+}
+
+function fenced(value: string): string {
+    return ['```', value, '```'].join('\n');
+}
+
+export const AddMapWithMarkers = definePrompt({
+    name: 'add-map-with-markers-react',
+    title: 'Add a map with markers to a React app',
+    description: 'Adds a Google Map with markers to a React application using the current recommended libraries.',
+}, z.object({
+    markers: text('What the markers show and where their data comes from, e.g. "store locations from /api/stores".'),
+    requirements: optionalText('Other requirements, such as clustering, info windows, custom marker styling or TypeScript.'),
+}).strict(), ({ markers, requirements }) => [
+    `Add a Google Map with markers to my React app. The markers show: ${markers}.`,
+    ...(requirements ? [`Requirements: ${requirements}`] : []),
+    '',
+    groundingSteps([
+        {
+            prompt: `Add a Google Map with Advanced Markers to a React application. Markers: ${markers}.${requirements ? ` Requirements: ${requirements}.` : ''}`,
+            search_context: ['Maps JavaScript API', 'React', 'Advanced Markers'],
+        },
+        { prompt: 'How to load the Maps JavaScript API and create a Map ID for Advanced Markers in a React app', search_context: ['@vis.gl/react-google-maps'] },
+    ]),
+    '4. Write the components step by step. Load the API key from configuration, never hard-code it, and explain how to restrict the key.',
+].join('\n'));
+
+export const MigratePlacesApi = definePrompt({
+    name: 'migrate-to-places-api-new',
+    title: 'Migrate from the legacy Places API to Places API (New)',
+    description: 'Migrates code from the legacy Places API to Places API (New), mapping each request, field and response.',
+}, z.object({
+    code: code('The code that calls the legacy Places API.'),
+    platform: optionalText('Platform of the code: web (JavaScript), Android, iOS or server (web service).'),
+}).strict(), ({ code, platform }) => [
+    `Migrate this code from the legacy Places API to Places API (New)${platform ? ` on ${platform}` : ''}:`,
+    fenced(code),
+    '',
+    groundingSteps([
+        {
+            prompt: `Migrate from the legacy Places API to Places API (New)${platform ? ` on ${platform}` : ''}: request, field mask and response changes for each feature used in the code.`,
+            search_context: ['Places API (New)', 'Places API migration'],
+        },
+        { prompt: 'Places API (New) field masks and pricing SKUs compared to the legacy Places API', search_context: ['Places API (New)'] },
+    ]),
+    '4. List every legacy call in the code with its replacement, then show the migrated code. Point out required field masks and any behavior or billing differences.',
+].join('\n'));
+
+export const TroubleshootApiKey = definePrompt({
+    name: 'troubleshoot-api-key-error',
+    title: 'Troubleshoot an API key error',
+    description: 'Finds the cause of a Google Maps Platform API key or authorization error and how to fix it.',
+}, z.object({
+    error_message: text('The error message or code, e.g. "RefererNotAllowedMapError" or "REQUEST_DENIED".'),
+    // Passed to the docs tool as search context, so it has the same length limit.
+    api: z.string().trim().min(1).max(MAX_SEARCH_CONTEXT_LENGTH).optional().describe('The API or SDK that returned the error, e.g. Maps JavaScript API or Geocoding API.'),
+}).strict(), ({ error_message, api }) => [
+    `I get this Google Maps Platform error${api ? ` from the ${api}` : ''}:`,
+    fenced(error_message),
+    '',
+    groundingSteps([
+        {
+            prompt: `Cause and fix of the Google Maps Platform error: ${error_message}`,
+            search_context: [...(api ? [api] : []), 'API key errors'],
+        },
+        { prompt: 'How to create, restrict and troubleshoot Google Maps Platform API keys, and enable billing and APIs for a project', search_context: ['API keys', 'API security best practices'] },
+    ]),
+    '4. Explain the most likely cause first, then give the exact steps to fix it in the Google Cloud console. Never ask me to paste my API key.',
+].join('\n'));
+
+export const ReviewTosCompliance = definePrompt({
+    name: 'review-tos-compliance',
+    title: 'Review code for Terms of Service compliance',
+    description: 'Reviews code for compliance with the Google Maps Platform Terms of Service, such as caching, attribution and use of content with non-Google maps.',
+}, z.object({
+    code: code('The code to review.'),
+    use_case: optionalText('What the application does with Google Maps Platform content.'),
+}).strict(), ({ code, use_case }) => [
+    'Review this code for compliance with the Google Maps Platform Terms of Service:',
+    fenced(code),
+    ...(use_case ? ['', `The application: ${use_case}`] : []),
+    '',
+    groundingSteps([
+        {
+            prompt: `Google Maps Platform Terms of Service restrictions on caching, storing, attribution and displaying content on non-Google maps${use_case ? ` for an application that ${use_case}` : ''}`,
+            search_context: ['Google Maps Platform Terms of Service', 'Service Specific Terms'],
+        },
+        { prompt: 'Attribution and logo requirements when displaying Google Maps Platform content', search_context: ['Policies and attributions'] },
+    ]),
+    '4. List each potential issue with the line of code, the term it may conflict with and a compliant alternative. This review is not legal advice; say so and recommend checking the current terms.',
+].join('\n'));
+
+export const PROMPTS: PromptDefinition[] = [AddMapWithMarkers, MigratePlacesApi, TroubleshootApiKey, ReviewTosCompliance];
+
+export function findPrompt(name: string): PromptDefinition | undefined {
+    return PROMPTS.find(definition => definition.prompt.name === name);
+}
+
+// Validates prompt arguments, throwing an InvalidParams error that lists every violation.
+export function parsePromptArguments<Args extends z.ZodObject>(definition: PromptDefinition<Args>, args: unknown): z.infer<Args> {
+    const result = definition.arguments.safeParse(args ?? {});
+    if (!result.success) {
+        throw invalidPromptArgumentsError(definition.prompt.name, result.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+        })));
+    }
+    return result.data;
+}
@@ -0,0 +1,101 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Reads the contexts of a streamed `/chat` response, calling `onContext` for
+ * each one as soon as it is complete. The service may stream Server-Sent
+ * Events with one JSON context per `data` field, ending with a `done` event or
+ * `[DONE]`, or newline-delimited JSON with one context per line. Any other
+ * response is read in full as a regular `{ "contexts": [...] }` body, so
+ * services without streaming support keep working.
+ */
+export async function readContextStream(body: AsyncIterable<Buffer | string>, contentType: string | undefined, onContext: (context: unknown) => void): Promise<unknown[]> {
+    const contexts: unknown[] = [];
+    const emit = (context: unknown) => {
+        contexts.push(context);
+        onContext(context);
+    };
+    const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+
+    if (mediaType === 'text/event-stream') {
+        for await (const event of splitRecords(body, /\r?\n\r?\n/)) {
+            const { name, data } = parseEvent(event);
+            if (name === 'done' || data === '[DONE]') {
+                break;
+            }
+            if (name === 'error') {
+                throw new Error(`The documentation service failed while streaming: ${data}`);
+            }
+            if (data !== undefined) {
+                emit(JSON.parse(data));
+            }
+        }
+    } else if (mediaType === 'application/x-ndjson' || mediaType === 'application/jsonl') {
+        for await (const line of splitRecords(body, /\r?\n/)) {
+            if (line.trim()) {
+                emit(JSON.parse(line));
+            }
+        }
+    } else {
+        const decoder = new TextDecoder();
+        let text = '';
+        for await (const chunk of body) {
+            text += decode(decoder, chunk);
+        }
+        text += decoder.decode();
+        for (const context of JSON.parse(text).contexts ?? []) {
+            emit(context);
+        }
+    }
+    return contexts;
+}
+
+// Decodes a chunk of UTF-8, keeping characters split across chunks for the next one.
+function decode(decoder: TextDecoder, chunk: Buffer | string): string {
+    return typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+}
+
+// Yields the records of a text stream separated by `separator`, whatever the chunk boundaries.
+async function* splitRecords(body: AsyncIterable<Buffer | string>, separator: RegExp): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for await (const chunk of body) {
+        buffered += decode(decoder, chunk);
+        const records = buffered.split(separator);
+        buffered = records.pop()!;
+        yield* records;
+    }
+    buffered += decoder.decode();
+    if (buffered) {
+        yield buffered;
+    }
+}
+
+// The event name and the `data` lines, joined with newlines, of a Server-Sent Event.
+function parseEvent(event: string): { name?: string; data?: string } {
+    let name: string | undefined;
+    const data: string[] = [];
+    for (const line of event.split(/\r?\n/)) {
+        const [field, ...rest] = line.split(':');
+        const value = rest.join(':').replace(/^ /, '');
+        if (field === 'event') {
+            name = value;
+        } else if (field === 'data') {
+            data.push(value);
+        }
+    }
+    return { name, data: data.length ? data.join('\n') : undefined };
+}
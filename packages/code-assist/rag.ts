@@ -0,0 +1,166 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import axios from 'axios';
+import { Document, DocumentInfo, DocumentRef } from './documents.js';
+import { readContextStream } from './rag-stream.js';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerStatus, ConcurrencyLimiter, RetryOptions, withRetries } from './resilience.js';
+
+export interface RagInstructions {
+    systemInstructions: string;
+    preamble: string;
+    europeanEconomicAreaTermsDisclaimer: string;
+    // Version of the instructions, for revalidation.
+    etag?: string;
+}
+
+// Kinds of source a search can be restricted to.
+export const SOURCE_TYPES = ['docs', 'samples', 'github', 'terms', 'trust_center'] as const;
+export type SourceType = typeof SOURCE_TYPES[number];
+
+export const PLATFORMS = ['web', 'android', 'ios', 'server'] as const;
+export type Platform = typeof PLATFORMS[number];
+
+/**
+ * Optional search parameters. Backends may ignore them; the docs tool
+ * enforces them on the returned contexts either way.
+ */
+export interface RagChatOptions {
+    maxResults?: number;
+    sourceTypes?: SourceType[];
+    platform?: Platform;
+    // Aborts the search, e.g. when the client cancels the tool call.
+    signal?: AbortSignal;
+    // Asks for the results to be streamed; called with each context as it arrives. The complete response is still returned.
+    onContext?: (context: unknown) => void;
+}
+
+export interface RagChatResponse {
+    status: number;
+    contexts: unknown[];
+}
+
+// A retrieval engine the MCP tools can query. The hosted RAG service is the
+// default; other implementations (e.g. the offline index) plug in here.
+export interface RagBackend {
+    chat(message: string, contexts: string[], options?: RagChatOptions): Promise<RagChatResponse>;
+    instructions(): Promise<RagInstructions>;
+    // Returns the instructions if they no longer match `etag`, or undefined if they are unchanged.
+    revalidateInstructions?(etag: string): Promise<RagInstructions | undefined>;
+    // Pages and sample files served as `gmp-docs://` and `gmp-samples://` resources, for backends that have a corpus.
+    listDocuments?(): Promise<DocumentInfo[]>;
+    getDocument?(ref: DocumentRef): Promise<Document | undefined>;
+    // Health details reported on /health.
+    status?(): RagBackendStatus;
+}
+
+export interface RagBackendStatus {
+    circuitBreaker: CircuitBreakerStatus;
+    requests: { active: number; queued: number; limit: number };
+}
+
+export interface HttpRagBackendTimeouts {
+    chatMs: number;
+    instructionsMs: number;
+}
+
+export interface HttpRagBackendResilience {
+    retries: RetryOptions;
+    circuitBreaker: CircuitBreakerOptions;
+    maxConcurrentRequests: number;
+}
+
+/**
+ * Backend for the hosted RAG service exposing `/chat` and `/instructions`.
+ * Calls are limited to `maxConcurrentRequests` at a time, retried with
+ * backoff on 429, 5xx and network errors, and failed fast by a circuit
+ * breaker while the service is down.
+ */
+export class HttpRagBackend implements RagBackend {
+    private readonly breaker: CircuitBreaker;
+    private readonly limiter: ConcurrencyLimiter;
+
+    constructor(private readonly endpoint: string, private readonly timeouts: HttpRagBackendTimeouts, private readonly resilience: HttpRagBackendResilience) {
+        this.breaker = new CircuitBreaker(resilience.circuitBreaker);
+        this.limiter = new ConcurrencyLimiter(resilience.maxConcurrentRequests);
+    }
+
+    private call<T>(request: () => Promise<T>, idempotent: boolean, signal?: AbortSignal): Promise<T> {
+        return this.breaker.execute(() => this.limiter.run(() => withRetries(request, { ...this.resilience.retries, idempotent, signal }), signal));
+    }
+
+    async chat(message: string, contexts: string[], options: RagChatOptions = {}): Promise<RagChatResponse> {
+        const { onContext } = options;
+        // A timed-out chat may still be running on the service, so only retry failures it reported.
+        return this.call(async () => {
+            const ragResponse = await axios.post(this.endpoint.concat("/chat"), {
+                message: message,
+                contexts: contexts,
+                ...(options.maxResults !== undefined && { maxResults: options.maxResults }),
+                ...(options.sourceTypes && { sourceTypes: options.sourceTypes }),
+                ...(options.platform && { platform: options.platform }),
+                ...(onContext && { stream: true }),
+            }, {
+                timeout: this.timeouts.chatMs,
+                signal: options.signal,
+                ...(onContext && {
+                    responseType: 'stream',
+                    headers: { Accept: 'text/event-stream, application/x-ndjson, application/json' },
+                }),
+            });
+
+            return {
+                status: ragResponse.status,
+                contexts: onContext
+                    ? await readContextStream(ragResponse.data, ragResponse.headers?.['content-type'], onContext)
+                    : ragResponse.data.contexts,
+            };
+        }, false, options.signal);
+    }
+
+    async instructions(): Promise<RagInstructions> {
+        return (await this.fetchInstructions())!;
+    }
+
+    revalidateInstructions(etag: string): Promise<RagInstructions | undefined> {
+        return this.fetchInstructions(etag);
+    }
+
+    // Sends a conditional request when `etag` is given; a 304 response yields undefined.
+    private async fetchInstructions(etag?: string): Promise<RagInstructions | undefined> {
+        const ragResponse = await this.call(() => axios.get(this.endpoint.concat("/instructions"), {
+            timeout: this.timeouts.instructionsMs,
+            ...(etag && {
+                headers: { 'If-None-Match': etag },
+                validateStatus: (status: number) => status === 304 || (status >= 200 && status < 300),
+            }),
+        }), true);
+        if (ragResponse.status === 304) {
+            return undefined;
+        }
+
+        return {
+            systemInstructions: ragResponse.data.systemInstructions,
+            preamble: ragResponse.data.preamble,
+            europeanEconomicAreaTermsDisclaimer: ragResponse.data.europeanEconomicAreaTermsDisclaimer,
+            etag: ragResponse.headers?.etag,
+        };
+    }
+
+    status(): RagBackendStatus {
+        return { circuitBreaker: this.breaker.status(), requests: this.limiter.status() };
+    }
+}
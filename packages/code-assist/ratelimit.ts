@@ -0,0 +1,175 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Config } from './config.js';
+
+export type RateLimitConfig = Config['rateLimits'];
+export type RateLimitRule = NonNullable<RateLimitConfig['perSession']>;
+export type RateLimitScope = 'session' | 'identity' | 'global';
+
+// Buckets that have refilled completely carry no state and are dropped once
+// this many are tracked.
+const PRUNE_THRESHOLD = 10_000;
+
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+    readonly capacity: number;
+    private readonly refillPerMs: number;
+
+    constructor(rule: RateLimitRule, now: number) {
+        this.capacity = rule.burst ?? rule.requestsPerMinute;
+        this.refillPerMs = rule.requestsPerMinute / 60_000;
+        this.tokens = this.capacity;
+        this.updatedAt = now;
+    }
+
+    private refill(now: number) {
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+        this.updatedAt = now;
+    }
+
+    remaining(now: number): number {
+        this.refill(now);
+        return Math.floor(this.tokens);
+    }
+
+    // Milliseconds until one token is available; 0 if one is available now.
+    waitTime(now: number): number {
+        this.refill(now);
+        return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+    }
+
+    take(now: number) {
+        this.refill(now);
+        this.tokens -= 1;
+    }
+
+    isFull(now: number): boolean {
+        this.refill(now);
+        return this.tokens >= this.capacity;
+    }
+}
+
+export type RateLimitDecision =
+    | { allowed: true }
+    // `remaining` holds the whole tokens left in every bucket that applies to the call.
+    | { allowed: false; scope: RateLimitScope; retryAfterMs: number; remaining: Partial<Record<RateLimitScope, number>> };
+
+export interface RateLimitKeys {
+    sessionId?: string;
+    identity?: string;
+}
+
+export interface BucketQuota {
+    remaining: number;
+    capacity: number;
+}
+
+export interface RateLimitStatus {
+    global: BucketQuota | null;
+    // The buckets of the caller `status` was asked about, if any.
+    caller?: Partial<Record<RateLimitScope, BucketQuota>>;
+    limits: RateLimitConfig;
+    trackedSessions: number;
+    trackedIdentities: number;
+    rejected: Record<RateLimitScope, number>;
+}
+
+/**
+ * Token-bucket limiter for tool calls with independent per-session,
+ * per-identity (API key or token subject) and global buckets. A call consumes
+ * a token from every applicable bucket, and only if all of them have one.
+ */
+export class RateLimiter {
+    private readonly sessions = new Map<string, TokenBucket>();
+    private readonly identities = new Map<string, TokenBucket>();
+    private readonly globalBucket: TokenBucket | null;
+    private readonly rejected: Record<RateLimitScope, number> = { session: 0, identity: 0, global: 0 };
+
+    constructor(private readonly limits: RateLimitConfig, private readonly now: () => number = Date.now) {
+        this.globalBucket = limits.global ? new TokenBucket(limits.global, now()) : null;
+    }
+
+    private bucketFor(buckets: Map<string, TokenBucket>, key: string, rule: RateLimitRule, now: number): TokenBucket {
+        let bucket = buckets.get(key);
+        if (!bucket) {
+            if (buckets.size >= PRUNE_THRESHOLD) {
+                this.prune(buckets, now);
+            }
+            bucket = new TokenBucket(rule, now);
+            buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    private prune(buckets: Map<string, TokenBucket>, now: number) {
+        for (const [key, bucket] of buckets) {
+            if (bucket.isFull(now)) {
+                buckets.delete(key);
+            }
+        }
+    }
+
+    private applicableBuckets(keys: RateLimitKeys, now: number): [RateLimitScope, TokenBucket][] {
+        const applicable: [RateLimitScope, TokenBucket][] = [];
+        if (this.limits.perSession) {
+            applicable.push(['session', this.bucketFor(this.sessions, keys.sessionId ?? 'stdio', this.limits.perSession, now)]);
+        }
+        if (this.limits.perIdentity && keys.identity) {
+            applicable.push(['identity', this.bucketFor(this.identities, keys.identity, this.limits.perIdentity, now)]);
+        }
+        if (this.globalBucket) {
+            applicable.push(['global', this.globalBucket]);
+        }
+        return applicable;
+    }
+
+    consume(keys: RateLimitKeys): RateLimitDecision {
+        const now = this.now();
+        const applicable = this.applicableBuckets(keys, now);
+        for (const [scope, bucket] of applicable) {
+            const retryAfterMs = bucket.waitTime(now);
+            if (retryAfterMs > 0) {
+                this.rejected[scope]++;
+                const remaining = Object.fromEntries(applicable.map(([applicableScope, applicableBucket]) => [applicableScope, applicableBucket.remaining(now)]));
+                return { allowed: false, scope, retryAfterMs, remaining };
+            }
+        }
+        for (const [, bucket] of applicable) {
+            bucket.take(now);
+        }
+        return { allowed: true };
+    }
+
+    // Reports the limits and, when `caller` is given, the quota left in each of its buckets.
+    status(caller?: RateLimitKeys): RateLimitStatus {
+        const now = this.now();
+        const quota = (bucket: TokenBucket): BucketQuota => ({ remaining: bucket.remaining(now), capacity: bucket.capacity });
+        // Buckets created for the caller are full, so the prune below drops them again.
+        const callerQuota = caller && Object.fromEntries(this.applicableBuckets(caller, now).map(([scope, bucket]) => [scope, quota(bucket)]));
+        this.prune(this.sessions, now);
+        this.prune(this.identities, now);
+        return {
+            global: this.globalBucket ? quota(this.globalBucket) : null,
+            ...(callerQuota && { caller: callerQuota }),
+            limits: this.limits,
+            trackedSessions: this.sessions.size,
+            trackedIdentities: this.identities.size,
+            rejected: { ...this.rejected },
+        };
+    }
+}
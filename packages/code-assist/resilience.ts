@@ -0,0 +1,231 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Config } from './config.js';
+
+export type RetryOptions = Config['retries'];
+export type CircuitBreakerOptions = Config['circuitBreaker'];
+
+// Connection errors raised before the request reached the server, so it is always safe to retry them.
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+// Errors after which the server may have processed the request.
+const TRANSIENT_ERROR_CODES = new Set(['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'ERR_NETWORK']);
+
+export class CircuitOpenError extends Error {
+    constructor(public readonly retryAfterMs: number) {
+        super(`RAG service is unavailable; retry after ${Math.ceil(retryAfterMs / 1000)} seconds`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+// HTTP status of a failed axios request, if the server responded.
+function statusOf(error: any): number | undefined {
+    return typeof error?.response?.status === 'number' ? error.response.status : undefined;
+}
+
+/**
+ * Whether a failed request indicates the backend is unavailable rather than
+ * that the request itself was bad: 429 and 5xx responses, and network errors.
+ */
+export function isBackendFailure(error: any): boolean {
+    const status = statusOf(error);
+    if (status !== undefined) {
+        return status === 429 || status >= 500;
+    }
+    return CONNECT_ERROR_CODES.has(error?.code) || TRANSIENT_ERROR_CODES.has(error?.code);
+}
+
+// Whether a request failed because its caller aborted it, e.g. when the client cancelled the tool call.
+export function isCancellation(error: any): boolean {
+    return error?.code === 'ERR_CANCELED' || error?.name === 'AbortError';
+}
+
+// The error a call aborted through `signal` fails with. MCP cancellations abort with the client's reason string, which is wrapped in an AbortError.
+function abortError(signal: AbortSignal): unknown {
+    return isCancellation(signal.reason) ? signal.reason : new DOMException(String(signal.reason), 'AbortError');
+}
+
+/**
+ * Whether a failed request can be retried. Timeouts and dropped connections
+ * are only retried for idempotent requests, since the server may already have
+ * done the work.
+ */
+export function isRetryable(error: any, idempotent: boolean): boolean {
+    if (statusOf(error) !== undefined || CONNECT_ERROR_CODES.has(error?.code)) {
+        return isBackendFailure(error);
+    }
+    return idempotent && TRANSIENT_ERROR_CODES.has(error?.code);
+}
+
+// Delay before retry `attempt` (1-based): "full jitter" exponential backoff, or the server's Retry-After.
+export function retryDelay(attempt: number, options: RetryOptions, error?: any, random: () => number = Math.random): number {
+    const retryAfter = Number(error?.response?.headers?.['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+        return Math.min(retryAfter * 1000, options.maxDelayMs);
+    }
+    return Math.floor(random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1)));
+}
+
+// Retries `fn` on retryable failures. Once `signal` is aborted no further attempt is made.
+export async function withRetries<T>(
+    fn: () => Promise<T>,
+    options: RetryOptions & { idempotent: boolean; signal?: AbortSignal },
+    sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms)),
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (attempt > options.maxRetries || options.signal?.aborted || !isRetryable(error, options.idempotent)) {
+                throw error;
+            }
+            await sleep(retryDelay(attempt, options, error));
+            if (options.signal?.aborted) {
+                throw abortError(options.signal);
+            }
+        }
+    }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+    state: CircuitState;
+    consecutiveFailures: number;
+    // When an open breaker lets the next trial request through.
+    retryAt?: string;
+}
+
+/**
+ * Fails calls fast once `failureThreshold` consecutive calls have failed with
+ * backend failures. After `resetTimeoutMs` one trial call is let through
+ * (half-open): its success closes the breaker, its failure reopens it.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private trialInFlight = false;
+
+    constructor(private readonly options: CircuitBreakerOptions, private readonly now: () => number = Date.now) {}
+
+    async execute<T>(fn: () => Promise<T>): Promise<T> {
+        this.beforeCall();
+        try {
+            const result = await fn();
+            this.onSuccess();
+            return result;
+        } catch (error) {
+            if (isCancellation(error)) {
+                // Says nothing about the backend; a cancelled trial call lets the next one through.
+                this.trialInFlight = false;
+            } else if (isBackendFailure(error)) {
+                this.onFailure();
+            } else {
+                // The backend answered, so it is up even though the request failed.
+                this.onSuccess();
+            }
+            throw error;
+        }
+    }
+
+    private beforeCall() {
+        if (this.state === 'open') {
+            const retryAfterMs = this.openedAt + this.options.resetTimeoutMs - this.now();
+            if (retryAfterMs > 0) {
+                throw new CircuitOpenError(retryAfterMs);
+            }
+            this.state = 'half_open';
+        }
+        if (this.state === 'half_open') {
+            if (this.trialInFlight) {
+                throw new CircuitOpenError(this.options.resetTimeoutMs);
+            }
+            this.trialInFlight = true;
+        }
+    }
+
+    private onSuccess() {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.trialInFlight = false;
+    }
+
+    private onFailure() {
+        this.consecutiveFailures++;
+        this.trialInFlight = false;
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = this.now();
+        }
+    }
+
+    status(): CircuitBreakerStatus {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            retryAt: this.state === 'open' ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString() : undefined,
+        };
+    }
+}
+
+/**
+ * Limits how many calls run at once; further calls wait in FIFO order. A
+ * waiting call whose `signal` is aborted leaves the queue without running.
+ */
+export class ConcurrencyLimiter {
+    private active = 0;
+    private readonly waiting: (() => void)[] = [];
+
+    constructor(private readonly maxConcurrent: number) {}
+
+    async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (signal?.aborted) {
+            throw abortError(signal);
+        }
+        if (this.active >= this.maxConcurrent) {
+            await new Promise<void>((resolve, reject) => {
+                const start = () => {
+                    signal?.removeEventListener('abort', cancel);
+                    resolve();
+                };
+                const cancel = () => {
+                    this.waiting.splice(this.waiting.indexOf(start), 1);
+                    reject(abortError(signal!));
+                };
+                this.waiting.push(start);
+                signal?.addEventListener('abort', cancel, { once: true });
+            });
+        } else {
+            this.active++;
+        }
+        try {
+            return await fn();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) {
+                // Hand the slot straight to the next caller.
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+
+    status(): { active: number; queued: number; limit: number } {
+        return { active: this.active, queued: this.waiting.length, limit: this.maxConcurrent };
+    }
+}
@@ -0,0 +1,232 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Config } from './config.js';
+import { writeFileAtomically } from './files.js';
+import { RagChatResponse } from './rag.js';
+import { SearchFilters } from './search.js';
+
+export type ResultCacheOptions = Config['cache'];
+
+export interface CachedResult {
+    response: RagChatResponse;
+    storedAt: number;
+    // The result limit the backend was asked for; unset if it was asked for all results.
+    maxResults?: number;
+}
+
+export interface ResultCacheStore {
+    get(key: string): Promise<CachedResult | undefined>;
+    set(key: string, result: CachedResult): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export interface ResultCacheStats {
+    hits: number;
+    misses: number;
+    hitRate: number;
+}
+
+/**
+ * Identifies a search independently of formatting: the prompt is compared
+ * case- and whitespace-insensitively and the contexts in any order. The
+ * result limit is not part of the key; see `ResultCache.get`.
+ */
+export function resultCacheKey(prompt: string, contexts: string[], filters: SearchFilters): string {
+    const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+    return createHash('sha256')
+        .update(JSON.stringify([
+            normalize(prompt),
+            [...new Set(contexts.map(normalize))].sort(),
+            [...(filters.sourceTypes ?? [])].sort(),
+            filters.platform ?? null,
+        ]))
+        .digest('hex');
+}
+
+// Keeps the `maxEntries` most recently used results.
+export class InMemoryResultCacheStore implements ResultCacheStore {
+    private readonly results = new Map<string, CachedResult>();
+
+    constructor(private readonly maxEntries: number) {}
+
+    async get(key: string): Promise<CachedResult | undefined> {
+        const result = this.results.get(key);
+        if (result) {
+            this.results.delete(key);
+            this.results.set(key, result);
+        }
+        return result;
+    }
+
+    async set(key: string, result: CachedResult): Promise<void> {
+        this.results.delete(key);
+        this.results.set(key, result);
+        for (const oldest of this.results.keys()) {
+            if (this.results.size <= this.maxEntries) {
+                break;
+            }
+            this.results.delete(oldest);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.results.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.results.clear();
+    }
+}
+
+/**
+ * Stores each result as a JSON file in `dir`, so the cache survives restarts
+ * and can be shared by instances. Reads refresh a file's modification time,
+ * and the least recently used files are deleted beyond `maxEntries`.
+ */
+export class FileResultCacheStore implements ResultCacheStore {
+    constructor(private readonly dir: string, private readonly maxEntries: number) {}
+
+    private file(key: string): string {
+        return path.join(this.dir, `${key}.json`);
+    }
+
+    async get(key: string): Promise<CachedResult | undefined> {
+        const file = this.file(key);
+        try {
+            const result = JSON.parse(await fs.readFile(file, 'utf8')) as CachedResult;
+            const now = new Date();
+            await fs.utimes(file, now, now);
+            return result;
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async set(key: string, result: CachedResult): Promise<void> {
+        await fs.mkdir(this.dir, { recursive: true });
+        await writeFileAtomically(this.file(key), JSON.stringify(result));
+        await this.evict();
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.file(key), { force: true });
+    }
+
+    // Removes only the result files, so the directory may be shared with other data.
+    async clear(): Promise<void> {
+        for (const name of await this.resultFiles()) {
+            await fs.rm(path.join(this.dir, name), { force: true });
+        }
+    }
+
+    private async resultFiles(): Promise<string[]> {
+        try {
+            return (await fs.readdir(this.dir)).filter(name => name.endsWith('.json'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    private async evict() {
+        const names = await this.resultFiles();
+        if (names.length <= this.maxEntries) {
+            return;
+        }
+        const files = await Promise.all(names.map(async name => {
+            const file = path.join(this.dir, name);
+            try {
+                return { file, usedAt: (await fs.stat(file)).mtimeMs };
+            } catch {
+                // Evicted concurrently by another instance.
+                return { file, usedAt: -Infinity };
+            }
+        }));
+        files.sort((a, b) => a.usedAt - b.usedAt);
+        for (const { file } of files.slice(0, files.length - this.maxEntries)) {
+            await fs.rm(file, { force: true });
+        }
+    }
+}
+
+/**
+ * Caches RAG search results for `ttlMs`. Store failures are treated as
+ * misses so the cache never fails a search.
+ */
+export class ResultCache {
+    private hits = 0;
+    private misses = 0;
+
+    constructor(private readonly store: ResultCacheStore, private readonly options: Pick<ResultCacheOptions, 'ttlMs'>, private readonly now: () => number = Date.now) {}
+
+    /**
+     * Returns a fresh cached result for `key` that covers `maxResults`: one
+     * fetched without a limit, with at least as high a limit, or with fewer
+     * results than its limit, i.e. every result there is.
+     */
+    async get(key: string, maxResults?: number): Promise<RagChatResponse | undefined> {
+        let result: CachedResult | undefined;
+        try {
+            result = await this.store.get(key);
+        } catch {
+            result = undefined;
+        }
+        const fresh = result && this.now() - result.storedAt < this.options.ttlMs;
+        const complete = result && (result.maxResults === undefined
+            || (maxResults !== undefined && maxResults <= result.maxResults)
+            || (result.response.contexts?.length ?? 0) < result.maxResults);
+        if (!fresh || !complete) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        return result!.response;
+    }
+
+    async set(key: string, response: RagChatResponse, maxResults?: number): Promise<void> {
+        try {
+            await this.store.set(key, { response, storedAt: this.now(), maxResults });
+        } catch {
+            // Not cached; the next identical search goes to the backend again.
+        }
+    }
+
+    async clear(): Promise<void> {
+        await this.store.clear();
+    }
+
+    stats(): ResultCacheStats {
+        const lookups = this.hits + this.misses;
+        return { hits: this.hits, misses: this.misses, hitRate: lookups ? this.hits / lookups : 0 };
+    }
+}
+
+export function createResultCache(cache: ResultCacheOptions): ResultCache {
+    const store = cache.store === 'file'
+        ? new FileResultCacheStore(cache.storeDir!, cache.maxEntries)
+        : new InMemoryResultCacheStore(cache.maxEntries);
+    return new ResultCache(store, cache);
+}
@@ -0,0 +1,53 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ClientCapabilities, Implementation } from '@modelcontextprotocol/sdk/types.js';
+
+// Private fields of the SDK that its initialize handling sets.
+interface WebStandardTransportState {
+    sessionId?: string;
+    _initialized: boolean;
+}
+
+interface ServerState {
+    _clientVersion?: Implementation;
+    _clientCapabilities?: ClientCapabilities;
+}
+
+/**
+ * Puts a freshly connected transport and server into the state the initialize
+ * handshake of session `sessionId` left them in, with the client info it sent.
+ * The SDK has no public API for this, so this is the only place that writes
+ * its private fields; the values are read back through the public getters and
+ * an error is thrown if the installed SDK lays them out differently.
+ */
+export function markInitialized(transport: StreamableHTTPServerTransport, server: Server, sessionId: string, clientInfo?: Implementation, clientCapabilities?: ClientCapabilities) {
+    const state = (transport as unknown as { _webStandardTransport?: WebStandardTransportState })._webStandardTransport;
+    if (typeof state?._initialized !== 'boolean') {
+        throw new Error('the installed @modelcontextprotocol/sdk does not have the transport fields needed to resume sessions');
+    }
+    state.sessionId = sessionId;
+    state._initialized = true;
+    const serverState = server as unknown as ServerState;
+    serverState._clientVersion = clientInfo;
+    serverState._clientCapabilities = clientCapabilities;
+
+    if (transport.sessionId !== sessionId || server.getClientVersion() !== clientInfo || server.getClientCapabilities() !== clientCapabilities) {
+        throw new Error('the installed @modelcontextprotocol/sdk does not have the session fields needed to resume sessions');
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from 'node:crypto';
+import { invalidCursorError } from './errors.js';
+import { Platform, SourceType } from './rag.js';
+import { DocContext } from './tools.js';
+
+export interface SearchFilters {
+    sourceTypes?: SourceType[];
+    platform?: Platform;
+}
+
+/**
+ * Identifies a search, so a cursor is only accepted for the search that
+ * issued it. `max_results` may differ between pages.
+ */
+export function searchFingerprint(prompt: string, contexts: string[], filters: SearchFilters): string {
+    return createHash('sha256')
+        .update(JSON.stringify([prompt, [...contexts].sort(), [...(filters.sourceTypes ?? [])].sort(), filters.platform ?? null]))
+        .digest('base64url')
+        .slice(0, 16);
+}
+
+// Cursors are opaque to clients: the offset of the next result and the search it belongs to.
+export function encodeCursor(offset: number, fingerprint: string): string {
+    return Buffer.from(JSON.stringify({ offset, search: fingerprint })).toString('base64url');
+}
+
+// Returns the offset a cursor points at, throwing an InvalidParams error for cursors of other searches.
+export function decodeCursor(cursor: string, fingerprint: string): number {
+    let decoded: any;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw invalidCursorError(cursor);
+    }
+    if (!Number.isInteger(decoded?.offset) || decoded.offset < 0 || decoded.search !== fingerprint) {
+        throw invalidCursorError(cursor);
+    }
+    return decoded.offset;
+}
+
+// Contexts not specific to any platform, such as terms of service, match every platform.
+export function matchesFilters(context: DocContext, filters: SearchFilters): boolean {
+    return (!filters.sourceTypes || filters.sourceTypes.includes(context.sourceType))
+        && (!filters.platform || !context.platform || context.platform === filters.platform);
+}
+
+// A context as returned by the backend, with its normalized form.
+export interface SearchResult {
+    raw: unknown;
+    context: DocContext;
+}
+
+// Orders results by score, highest first. Unscored results keep their backend order, after the scored ones.
+export function rankByRelevance<T extends SearchResult>(results: T[]): T[] {
+    const score = (result: T) => result.context.score ?? -Infinity;
+    return [...results].sort((a, b) => score(b) - score(a));
+}
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+// Sliding-window chunkers repeat the end of a chunk at the start of the next
+// one. Chunks that overlap like this by at least this share of the shorter
+// text, and by at least MIN_OVERLAP_CHARS, are duplicates.
+const MIN_OVERLAP_RATIO = 0.5;
+const MIN_OVERLAP_CHARS = 50;
+
+// Whether a suffix of `a` of at least `min` characters is a prefix of `b`.
+function overlaps(a: string, b: string, min: number): boolean {
+    const head = b.slice(0, min);
+    for (let at = a.indexOf(head, Math.max(0, a.length - b.length)); at >= 0 && a.length - at >= min; at = a.indexOf(head, at + 1)) {
+        if (b.startsWith(a.slice(at))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function isDuplicate(a: string, b: string): boolean {
+    if (a.includes(b) || b.includes(a)) {
+        return true;
+    }
+    const min = Math.max(MIN_OVERLAP_CHARS, Math.ceil(Math.min(a.length, b.length) * MIN_OVERLAP_RATIO));
+    return overlaps(a, b, min) || overlaps(b, a, min);
+}
+
+/**
+ * Drops results whose text is contained in a more relevant one, or that
+ * overlap one by at least half of the shorter text, as neighbouring chunks of
+ * a sliding window do. A result that contains a more relevant one replaces
+ * it, keeping its rank.
+ */
+export function dedupeResults<T extends SearchResult>(results: T[]): T[] {
+    const kept: { result: T; text: string }[] = [];
+    for (const result of results) {
+        const text = normalizeText(result.context.text);
+        const overlapping = kept.find(entry => isDuplicate(entry.text, text));
+        if (!overlapping) {
+            kept.push({ result, text });
+        } else if (text.includes(overlapping.text) && text.length > overlapping.text.length) {
+            overlapping.result = result;
+            overlapping.text = text;
+        }
+    }
+    return kept.map(entry => entry.result);
+}
+
+function sizeOf(result: SearchResult): number {
+    return JSON.stringify(result.raw)?.length ?? 0;
+}
+
+/**
+ * Takes results in order until the next one would exceed `maxChars`,
+ * measured as the serialized size of the returned contexts. If even the
+ * first result does not fit, its text is cut to fit and it is marked
+ * `truncated`, so a call always returns something.
+ */
+export function fitToBudget(results: SearchResult[], maxChars: number): SearchResult[] {
+    const fitted: SearchResult[] = [];
+    let used = 0;
+    for (const result of results) {
+        const size = sizeOf(result);
+        if (used + size <= maxChars) {
+            fitted.push(result);
+            used += size;
+            continue;
+        }
+        if (fitted.length === 0) {
+            const marker = '…';
+            const overhead = JSON.stringify({ ...result.context, text: marker, truncated: true }).length;
+            const context: DocContext = { ...result.context, text: result.context.text.slice(0, Math.max(0, maxChars - overhead)) + marker, truncated: true };
+            fitted.push({ raw: context, context });
+        }
+        break;
+    }
+    return fitted;
+}
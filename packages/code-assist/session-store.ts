@@ -0,0 +1,143 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { ClientCapabilities, Implementation, LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { CallerIdentity } from './auth.js';
+import { Config } from './config.js';
+import { hashedFileName, writeFileAtomically } from './files.js';
+
+/**
+ * The part of a session that outlives the process: enough to rebuild the
+ * transport and server for a known Mcp-Session-Id on any instance.
+ */
+export interface StoredSession {
+    id: string;
+    createdAt: number;
+    lastActivityAt: number;
+    identity?: CallerIdentity;
+    clientInfo?: Implementation;
+    clientCapabilities?: ClientCapabilities;
+    // Resource URIs the client subscribed to.
+    subscriptions?: string[];
+    // Level the client chose with `logging/setLevel`.
+    logLevel?: LoggingLevel;
+}
+
+export interface SessionStore {
+    get(id: string): Promise<StoredSession | undefined>;
+    set(session: StoredSession): Promise<void>;
+    delete(id: string): Promise<void>;
+    // Deletes sessions last active before `idleBefore` or created before `createdBefore`; returns how many.
+    deleteExpired(idleBefore?: number, createdBefore?: number): Promise<number>;
+}
+
+export function isExpired(session: StoredSession, idleBefore?: number, createdBefore?: number): boolean {
+    return (idleBefore !== undefined && session.lastActivityAt < idleBefore)
+        || (createdBefore !== undefined && session.createdAt < createdBefore);
+}
+
+export class InMemorySessionStore implements SessionStore {
+    private readonly sessions = new Map<string, StoredSession>();
+
+    async get(id: string): Promise<StoredSession | undefined> {
+        const session = this.sessions.get(id);
+        return session && { ...session };
+    }
+
+    async set(session: StoredSession): Promise<void> {
+        this.sessions.set(session.id, { ...session });
+    }
+
+    async delete(id: string): Promise<void> {
+        this.sessions.delete(id);
+    }
+
+    async deleteExpired(idleBefore?: number, createdBefore?: number): Promise<number> {
+        let deleted = 0;
+        for (const [id, session] of this.sessions) {
+            if (isExpired(session, idleBefore, createdBefore)) {
+                this.sessions.delete(id);
+                deleted++;
+            }
+        }
+        return deleted;
+    }
+}
+
+/**
+ * Stores each session as a JSON file in `dir`, which can be a volume shared
+ * by all instances (e.g. a Cloud Storage FUSE or Filestore mount on Cloud Run).
+ */
+export class FileSessionStore implements SessionStore {
+    constructor(private readonly dir: string) {}
+
+    private file(id: string): string {
+        return path.join(this.dir, `${hashedFileName(id)}.json`);
+    }
+
+    async get(id: string): Promise<StoredSession | undefined> {
+        try {
+            const session = JSON.parse(await fs.readFile(this.file(id), 'utf8')) as StoredSession;
+            return session.id === id ? session : undefined;
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async set(session: StoredSession): Promise<void> {
+        await fs.mkdir(this.dir, { recursive: true });
+        await writeFileAtomically(this.file(session.id), JSON.stringify(session));
+    }
+
+    async delete(id: string): Promise<void> {
+        await fs.rm(this.file(id), { force: true });
+    }
+
+    async deleteExpired(idleBefore?: number, createdBefore?: number): Promise<number> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.dir);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return 0;
+            }
+            throw error;
+        }
+        let deleted = 0;
+        for (const name of names.filter(name => name.endsWith('.json'))) {
+            const file = path.join(this.dir, name);
+            try {
+                const session = JSON.parse(await fs.readFile(file, 'utf8')) as StoredSession;
+                if (isExpired(session, idleBefore, createdBefore)) {
+                    await fs.rm(file, { force: true });
+                    deleted++;
+                }
+            } catch {
+                // Deleted concurrently by another instance, or not a session record.
+            }
+        }
+        return deleted;
+    }
+}
+
+export function createSessionStore(sessions: Config['sessions']): SessionStore {
+    return sessions.store === 'file' ? new FileSessionStore(sessions.storeDir!) : new InMemorySessionStore();
+}
@@ -0,0 +1,270 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { CallerIdentity } from './auth.js';
+import { Config } from './config.js';
+import { SessionStore, StoredSession, isExpired } from './session-store.js';
+import { resourceSubscriptions } from './subscriptions.js';
+import { clientLogLevel, setClientLogLevel } from './logging.js';
+import { markInitialized } from './sdk-session.js';
+
+export type SessionLimits = Partial<Config['sessions']>;
+
+export type EvictionReason = 'idle' | 'lifetime' | 'capacity';
+
+export interface SessionRegistryOptions {
+    // Shared store that lets other instances resume sessions created here.
+    store?: SessionStore;
+    now?: () => number;
+}
+
+export interface Session {
+    id: string;
+    transport: StreamableHTTPServerTransport;
+    server: Server;
+    createdAt: number;
+    lastActivityAt: number;
+    // Authenticated caller that opened the session, when authentication is enabled.
+    identity?: CallerIdentity;
+}
+
+/**
+ * Tracks the live StreamableHTTP sessions of one HTTP app, keyed by
+ * Mcp-Session-Id. Clients that disappear without sending DELETE are cleaned
+ * up by the sweeper once idle or past their lifetime, and the oldest idle
+ * session is evicted when `maxSessions` is reached.
+ *
+ * With a store, session metadata is also persisted so that a request for a
+ * session this instance does not hold can be served by `restore`-ing it.
+ * Evicting a session only releases it locally; the stored record is removed
+ * when the client terminates the session or it expires.
+ */
+export class SessionRegistry {
+    // Kept in least recently used order: `touch` moves a session to the end.
+    private readonly sessions = new Map<string, Session>();
+    private readonly evicted: Record<EvictionReason, number> = { idle: 0, lifetime: 0, capacity: 0 };
+    // The latest store write of each session; writes are chained so they land in order and `terminate` can wait for them.
+    private readonly writes = new Map<string, Promise<void>>();
+    private sweeper: NodeJS.Timeout | null = null;
+    private readonly store?: SessionStore;
+    private readonly now: () => number;
+
+    constructor(private readonly limits: SessionLimits = {}, options: SessionRegistryOptions = {}) {
+        this.store = options.store;
+        this.now = options.now ?? Date.now;
+    }
+
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    has(id: string): boolean {
+        return this.sessions.has(id);
+    }
+
+    get(id: string): Session | undefined {
+        return this.sessions.get(id);
+    }
+
+    // Registers a new session, or one resumed from `restored`, and persists it to the store.
+    async add(id: string, transport: StreamableHTTPServerTransport, server: Server, identity?: CallerIdentity, restored?: StoredSession): Promise<Session> {
+        if (this.limits.maxSessions !== undefined) {
+            while (this.sessions.size >= this.limits.maxSessions) {
+                const leastRecentlyUsed = this.sessions.values().next().value!;
+                this.evict(leastRecentlyUsed, 'capacity');
+            }
+        }
+        const now = this.now();
+        const session: Session = { id, transport, server, createdAt: restored?.createdAt ?? now, lastActivityAt: now, identity };
+        this.sessions.set(id, session);
+        await this.persist(id);
+        return session;
+    }
+
+    // Records activity on a session, resetting its idle timeout.
+    touch(id: string) {
+        const session = this.sessions.get(id);
+        if (session) {
+            session.lastActivityAt = this.now();
+            this.sessions.delete(id);
+            this.sessions.set(id, session);
+            this.persist(id).catch(error => {
+                console.error(`Error saving session ${id}:`, error);
+            });
+        }
+    }
+
+    // Writes the current state of a session, including the client info from its handshake, to the store.
+    // Sessions removed before their turn comes are not written.
+    persist(id: string): Promise<void> {
+        const write = (this.writes.get(id) ?? Promise.resolve())
+            .catch(() => {})
+            .then(async () => {
+                const session = this.sessions.get(id);
+                if (session) {
+                    await this.store?.set(toStoredSession(session));
+                }
+            });
+        this.writes.set(id, write);
+        const settled = () => {
+            if (this.writes.get(id) === write) {
+                this.writes.delete(id);
+            }
+        };
+        write.then(settled, settled);
+        return write;
+    }
+
+    // Looks up a session this instance does not hold; expired records are deleted instead of returned.
+    async restore(id: string): Promise<StoredSession | undefined> {
+        const stored = await this.store?.get(id);
+        if (!stored) {
+            return undefined;
+        }
+        if (isExpired(stored, ...this.expiry(this.now()))) {
+            await this.store!.delete(id);
+            return undefined;
+        }
+        return stored;
+    }
+
+    // Removes a session from this instance only.
+    delete(id: string): boolean {
+        return this.sessions.delete(id);
+    }
+
+    // Removes a session the client terminated, here and in the store.
+    async terminate(id: string): Promise<void> {
+        this.sessions.delete(id);
+        // A write already under way would otherwise recreate the record after it is deleted.
+        await this.writes.get(id)?.catch(() => {});
+        await this.store?.delete(id);
+    }
+
+    values(): IterableIterator<Session> {
+        return this.sessions.values();
+    }
+
+    // Closes sessions that are idle or past their lifetime; returns how many were closed.
+    sweep(): number {
+        const now = this.now();
+        let closed = 0;
+        for (const session of Array.from(this.sessions.values())) {
+            if (this.limits.maxLifetimeMs !== undefined && now - session.createdAt >= this.limits.maxLifetimeMs) {
+                this.evict(session, 'lifetime');
+                closed++;
+            } else if (this.limits.idleTimeoutMs !== undefined && now - session.lastActivityAt >= this.limits.idleTimeoutMs) {
+                this.evict(session, 'idle');
+                closed++;
+            }
+        }
+        // Also expire records of sessions that other instances, or none, still hold.
+        this.store?.deleteExpired(...this.expiry(now)).catch(error => {
+            console.error('Error deleting expired sessions:', error);
+        });
+        return closed;
+    }
+
+    // Timestamps before which a session's last activity and creation make it expired.
+    private expiry(now: number): [number | undefined, number | undefined] {
+        return [
+            this.limits.idleTimeoutMs !== undefined ? now - this.limits.idleTimeoutMs : undefined,
+            this.limits.maxLifetimeMs !== undefined ? now - this.limits.maxLifetimeMs : undefined,
+        ];
+    }
+
+    // Runs `sweep` every `sweepIntervalMs` until `closeAll`; a no-op without idle or lifetime limits.
+    startSweeper() {
+        if (this.sweeper || (this.limits.idleTimeoutMs === undefined && this.limits.maxLifetimeMs === undefined)) {
+            return;
+        }
+        this.sweeper = setInterval(() => this.sweep(), this.limits.sweepIntervalMs ?? 60_000);
+        // Do not keep the process alive just to sweep sessions.
+        this.sweeper.unref();
+    }
+
+    stopSweeper() {
+        if (this.sweeper) {
+            clearInterval(this.sweeper);
+            this.sweeper = null;
+        }
+    }
+
+    evictions(): Record<EvictionReason, number> {
+        return { ...this.evicted };
+    }
+
+    private evict(session: Session, reason: EvictionReason) {
+        this.sessions.delete(session.id);
+        this.evicted[reason]++;
+        console.log(`Closing StreamableHTTP session ${session.id} (${reason})`);
+        session.transport.close().catch(error => {
+            console.error(`Error closing transport for session ${session.id}:`, error);
+        });
+    }
+
+    // Closes every transport, logging (not throwing) individual failures.
+    async closeAll(): Promise<void> {
+        this.stopSweeper();
+        for (const session of Array.from(this.sessions.values())) {
+            try {
+                await session.transport.close();
+            } catch (error) {
+                console.error(`Error closing transport for session ${session.id}:`, error);
+            }
+        }
+        this.sessions.clear();
+    }
+}
+
+function toStoredSession(session: Session): StoredSession {
+    return {
+        id: session.id,
+        createdAt: session.createdAt,
+        lastActivityAt: session.lastActivityAt,
+        identity: session.identity,
+        clientInfo: session.server.getClientVersion(),
+        clientCapabilities: session.server.getClientCapabilities(),
+        subscriptions: [...resourceSubscriptions(session.server)],
+        logLevel: clientLogLevel(session.server),
+    };
+}
+
+// Restores a stored session, with its subscriptions and log level, on a freshly connected transport and server.
+export function resumeSession(transport: StreamableHTTPServerTransport, server: Server, stored: StoredSession) {
+    try {
+        markInitialized(transport, server, stored.id, stored.clientInfo, stored.clientCapabilities);
+    } catch (error) {
+        throw new Error(`Cannot resume session ${stored.id}: ${error instanceof Error ? error.message : error}`);
+    }
+    for (const uri of stored.subscriptions ?? []) {
+        resourceSubscriptions(server).add(uri);
+    }
+    if (stored.logLevel) {
+        setClientLogLevel(server, stored.logLevel);
+    }
+}
+
+// Methods whose effect is kept with the session, so it must be persisted once they are handled.
+const SESSION_STATE_METHODS = new Set(['resources/subscribe', 'resources/unsubscribe', 'logging/setLevel']);
+
+// Whether a request body contains a call that changes stored session state.
+export function changesSessionState(body: unknown): boolean {
+    const messages = Array.isArray(body) ? body : [body];
+    return messages.some(message => SESSION_STATE_METHODS.has(message?.method));
+}
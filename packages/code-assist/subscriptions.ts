@@ -0,0 +1,29 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+// URIs of the resources each client subscribed to with `resources/subscribe`, by the server of its session.
+const subscriptions = new WeakMap<Server, Set<string>>();
+
+export function resourceSubscriptions(server: Server): Set<string> {
+    let uris = subscriptions.get(server);
+    if (!uris) {
+        uris = new Set();
+        subscriptions.set(server, uris);
+    }
+    return uris;
+}
@@ -0,0 +1,258 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { invalidArgumentsError } from './errors.js';
+import { PLATFORMS, Platform, SOURCE_TYPES, SourceType } from './rag.js';
+
+export const MAX_PROMPT_LENGTH = 8000;
+export const MAX_SEARCH_CONTEXTS = 10;
+export const MAX_SEARCH_CONTEXT_LENGTH = 200;
+export const MAX_RESULTS_LIMIT = 50;
+export const MIN_RESPONSE_CHARS = 500;
+
+// A tool whose published `inputSchema` (and `outputSchema`) are generated from the zod schemas its arguments are validated with.
+export interface ToolDefinition<Args extends z.ZodObject = z.ZodObject> {
+    tool: Tool;
+    arguments: Args;
+}
+
+function toToolSchema(schema: z.ZodObject, io: 'input' | 'output') {
+    const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io });
+    return jsonSchema as Tool['inputSchema'];
+}
+
+function defineTool<Args extends z.ZodObject>(tool: Omit<Tool, 'inputSchema' | 'outputSchema'>, args: Args, output?: z.ZodObject): ToolDefinition<Args> {
+    return {
+        tool: {
+            ...tool,
+            inputSchema: toToolSchema(args, 'input'),
+            ...(output && { outputSchema: toToolSchema(output, 'output') }),
+        },
+        arguments: args,
+    };
+}
+
+export const DocContextSchema = z.object({
+    text: z.string().describe('Relevant excerpt of the documentation, sample or terms.'),
+    title: z.string().optional().describe('Title of the source document.'),
+    source: z.string().optional().describe('URL of the source document, its gmp-docs:// or gmp-samples:// resource URI, or its path in an offline documentation index.'),
+    product: z.string().optional().describe('Google Maps Platform product the excerpt is about.'),
+    score: z.number().optional().describe('Relevance score; higher is more relevant.'),
+    lastUpdated: z.string().optional().describe('When the source document was last updated, as an ISO 8601 date-time.'),
+    sourceType: z.enum(SOURCE_TYPES).describe('Kind of source: documentation, code sample, GitHub repository, terms of service or trust center.'),
+    platform: z.enum(PLATFORMS).optional().describe('Platform the excerpt is about, if it is specific to one.'),
+    truncated: z.boolean().optional().describe('Whether the text was cut to fit the response budget.'),
+});
+
+export type DocContext = z.infer<typeof DocContextSchema>;
+
+export const CitationSchema = z.object({
+    url: z.string().describe('URL of the official page, sample repository or terms of service section, or the gmp-docs:// or gmp-samples:// resource of the page.'),
+    title: z.string().optional(),
+    product: z.string().optional(),
+    lastUpdated: z.string().optional().describe('ISO 8601 date-time the page was last updated.'),
+});
+
+export type Citation = z.infer<typeof CitationSchema>;
+
+export const RetrieveDocsOutputSchema = z.object({
+    contexts: z.array(DocContextSchema),
+    // One citation per distinct web page the contexts come from.
+    citations: z.array(CitationSchema),
+    // Pass as `cursor` to get the next page of results; absent on the last page.
+    nextCursor: z.string().optional(),
+    // Present when results were left out to fit the response budget.
+    truncated: z.object({
+        moreAvailable: z.int().describe('Number of further contexts available with nextCursor.'),
+        maxResponseChars: z.int(),
+        message: z.string(),
+    }).optional(),
+    // HTTP status of the RAG service response.
+    status: z.int(),
+});
+
+export type RetrieveDocsOutput = z.infer<typeof RetrieveDocsOutputSchema>;
+
+function firstOf<T>(raw: Record<string, unknown>, keys: string[], type: 'string' | 'number'): T | undefined {
+    for (const key of keys) {
+        if (typeof raw[key] === type && raw[key] !== '') {
+            return raw[key] as T;
+        }
+    }
+    return undefined;
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
+
+const LAST_UPDATED_KEYS = ['last_updated', 'lastUpdated', 'updated_at', 'updateTime', 'last_modified'];
+
+// Matches one of `words` as a whole path segment or product name word, or as a hyphen-separated part of one such as `android-sdk`.
+function wordPattern(words: string, hyphenated = true): RegExp {
+    const separator = hyphenated ? '[/\\s-]' : '[/\\s]';
+    return new RegExp(`(^|${separator})(${words})(${separator}|$)`, 'i');
+}
+
+// Paths of official pages that are specific to one platform.
+const PLATFORM_PATTERNS: [RegExp, Platform][] = [
+    [wordPattern('android'), 'android'],
+    [wordPattern('ios'), 'ios'],
+    // Not hyphenated, so that `web-service` pages are left to the server pattern.
+    [wordPattern('javascript|web', false), 'web'],
+    [wordPattern('js|react'), 'web'],
+    [/\/web-service|\/(geocoding|directions|distance-matrix|elevation|roads|routes|timezone|geolocation|address-validation)(\/|$)|\/places\/web-service/i, 'server'],
+];
+
+function inferSourceType(source: string | undefined): SourceType {
+    if (!source) {
+        return 'docs';
+    }
+    if (/^https?:\/\/(www\.)?github\.com\//i.test(source)) {
+        return 'github';
+    }
+    if (/trust-center|\/trust(\/|$)/i.test(source)) {
+        return 'trust_center';
+    }
+    if (/\/terms(\/|#|$)|terms-of-service|\/maps-platform\/terms/i.test(source)) {
+        return 'terms';
+    }
+    if (/^gmp-samples:\/\/|\/samples?(\/|$)|\/examples?(\/|$)/i.test(source)) {
+        return 'samples';
+    }
+    return 'docs';
+}
+
+function inferPlatform(source: string | undefined, product: string | undefined): Platform | undefined {
+    const subject = `${source ?? ''} ${product ?? ''}`;
+    return PLATFORM_PATTERNS.find(([pattern]) => pattern.test(subject))?.[1];
+}
+
+// Normalizes a date to ISO 8601, dropping values that are not dates.
+function toIsoDate(value: string | number | undefined): string | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Maps a context returned by a RAG backend to a `DocContext`. The hosted
+ * service and the offline index use different field names; contexts of an
+ * unknown shape are kept as JSON text so nothing is lost.
+ */
+export function toDocContext(raw: unknown): DocContext {
+    if (typeof raw === 'string') {
+        return { text: raw, sourceType: 'docs' };
+    }
+    if (!raw || typeof raw !== 'object') {
+        return { text: JSON.stringify(raw) ?? '', sourceType: 'docs' };
+    }
+    const fields = raw as Record<string, unknown>;
+    const context: DocContext = {
+        text: firstOf<string>(fields, ['text', 'content', 'chunk', 'page_content', 'snippet'], 'string') ?? JSON.stringify(raw),
+        title: firstOf(fields, ['title', 'name'], 'string'),
+        source: firstOf(fields, ['url', 'uri', 'source', 'link'], 'string'),
+        product: firstOf(fields, ['product', 'product_name', 'productName'], 'string'),
+        score: firstOf(fields, ['score', 'relevance_score', 'relevanceScore'], 'number'),
+        // Either a date string or epoch milliseconds.
+        lastUpdated: toIsoDate(firstOf<string>(fields, LAST_UPDATED_KEYS, 'string') ?? firstOf<number>(fields, LAST_UPDATED_KEYS, 'number')),
+        sourceType: 'docs',
+    };
+    // Classifications from the backend win over ones inferred from the source URL.
+    const sourceType = firstOf<string>(fields, ['source_type', 'sourceType'], 'string');
+    const platform = firstOf<string>(fields, ['platform'], 'string')?.toLowerCase();
+    context.sourceType = (SOURCE_TYPES as readonly string[]).includes(sourceType!) ? sourceType as SourceType : inferSourceType(context.source);
+    context.platform = (PLATFORMS as readonly string[]).includes(platform!) ? platform as Platform : inferPlatform(context.source, context.product);
+    return withoutUndefined(context);
+}
+
+/**
+ * Collects citations for the pages the contexts were retrieved from, in
+ * context order. Only web pages and documentation resources can be linked to;
+ * contexts with any other source are skipped.
+ */
+export function toCitations(contexts: DocContext[]): Citation[] {
+    const citations = new Map<string, Citation>();
+    for (const context of contexts) {
+        if (!context.source || !/^(https?|gmp-docs|gmp-samples):\/\//i.test(context.source) || citations.has(context.source)) {
+            continue;
+        }
+        citations.set(context.source, withoutUndefined({
+            url: context.source,
+            title: context.title,
+            product: context.product,
+            lastUpdated: context.lastUpdated,
+        }));
+    }
+    return [...citations.values()];
+}
+
+export const RetrieveGoogleMapsPlatformDocs = defineTool({
+    name: 'retrieve-google-maps-platform-docs',
+    description: 'Searches Google Maps Platform documentation, code samples, GitHub repositories, and terms of service to answer user questions. IMPORTANT: Before calling this tool, call the `retrieve-instructions` tool or load the `instructions` resource to add crucial system instructions and preamble to context.',
+}, z.object({
+    prompt: z.string().trim().min(1).max(MAX_PROMPT_LENGTH).describe(`You are an expert prompt engineer for a Retrieval-Augmented Generation (RAG) system.
+
+**Instructions:**
+1.  Analyze the user's intent (e.g., are they trying to implement, troubleshoot, or learn?).
+2.  Identify the Google Maps Platform product and feature the user is asking about.
+3.  You must keep all details provided by the user in the original query.
+4.  Do not remove key information provided in the request, such as city, country, address, or lat/lng.
+5.  Add extra information that is relevant to the RAG system without removing user provided information.`),
+    search_context: z.array(z.string().trim().min(1).max(MAX_SEARCH_CONTEXT_LENGTH)).max(MAX_SEARCH_CONTEXTS).optional()
+        .describe('Supplemental context to aid the search if the prompt alone is ambiguous or too broad. Put names of existing Google Maps Platform products or features specified in the user prompt.'),
+    max_results: z.int().min(1).max(MAX_RESULTS_LIMIT).optional()
+        .describe('Maximum number of contexts to return. Use a small value when your context window is limited, and page through more results with `cursor`.'),
+    cursor: z.string().min(1).optional()
+        .describe('The `nextCursor` of a previous call with the same prompt, search_context and filters, to get the next page of results.'),
+    source_types: z.array(z.enum(SOURCE_TYPES)).min(1).optional()
+        .describe('Only return contexts from these kinds of source: docs, samples (code samples), github (GitHub repositories), terms (terms of service) and trust_center.'),
+    platform: z.enum(PLATFORMS).optional()
+        .describe('Only return contexts for this platform. Contexts that apply to every platform are still returned.'),
+    max_response_chars: z.int().min(MIN_RESPONSE_CHARS).optional()
+        .describe('Maximum total size of the returned contexts in characters (roughly 4 characters per token). Less relevant contexts that do not fit are left for the next page.'),
+    no_cache: z.boolean().optional()
+        .describe('Search again instead of returning a cached result of the same search. Only use this when the user needs the very latest documentation.'),
+}).strict(), RetrieveDocsOutputSchema);
+
+export type RetrieveDocsArguments = z.infer<typeof RetrieveGoogleMapsPlatformDocs.arguments>;
+
+export const RetrieveInstructions = defineTool({
+    name: 'retrieve-instructions',
+    description: 'Retrieves system instructions, preamble for using the retrieve-google-maps-platform-docs tool.',
+}, z.object({}).strict());
+
+export const TOOLS: ToolDefinition[] = [RetrieveGoogleMapsPlatformDocs, RetrieveInstructions];
+
+export function findTool(name: string): ToolDefinition | undefined {
+    return TOOLS.find(definition => definition.tool.name === name);
+}
+
+// Validates tool call arguments, throwing an InvalidParams error that lists every violation.
+export function parseToolArguments<Args extends z.ZodObject>(definition: ToolDefinition<Args>, args: unknown): z.infer<Args> {
+    const result = definition.arguments.safeParse(args ?? {});
+    if (!result.success) {
+        throw invalidArgumentsError(definition.tool.name, result.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+        })));
+    }
+    return result.data;
+}